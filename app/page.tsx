@@ -12,7 +12,7 @@ const BlackHole = dynamic(() => import("../components/black-hole"), {
 export default function Page() {
   return (
     <div className="w-full h-screen bg-black">
-      <BlackHole />
+      <BlackHole syncUrl />
     </div>
   );
 }
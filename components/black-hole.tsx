@@ -1,451 +1,564 @@
 "use client";
 
-import { useRef, useEffect } from "react";
-import { Canvas, useFrame, useThree } from "@react-three/fiber";
+import {
+  useCallback,
+  useRef,
+  useEffect,
+  useMemo,
+  useState,
+  type MutableRefObject,
+} from "react";
+import { Canvas, useFrame, useThree, type RootState } from "@react-three/fiber";
+import { Link, Route } from "lucide-react";
 import * as THREE from "three";
+import { CameraPathEditor } from "@/components/camera-path-editor";
+import { ControlPanel } from "@/components/control-panel";
+import { EnduranceHud, TimeDilationHud } from "@/components/time-dilation-hud";
+import { Alert, AlertDescription, AlertTitle } from "@/components/ui/alert";
+import { Button } from "@/components/ui/button";
+import { Progress } from "@/components/ui/progress";
+import { toast } from "@/hooks/use-toast";
+import { useUrlViewState } from "@/hooks/use-url-view-state";
+import {
+  createResolutionController,
+  jitterOffset,
+} from "@/lib/adaptive-resolution";
+import { createBodyOrbits, orbitWarnings } from "@/lib/bodies";
+import { cameraVelocity } from "@/lib/camera-motion";
+import {
+  applyPathParameters,
+  capturePathParameters,
+  emptyCameraPath,
+  evaluatePath,
+  pathDuration,
+  type CameraPath,
+  type CameraSample,
+} from "@/lib/camera-path";
+import { createEnduranceCamera } from "@/lib/endurance-orbit";
+import {
+  downloadBlob,
+  downloadCanvas,
+  renderTiled,
+  type ImageExportOptions,
+} from "@/lib/image-export";
+import { createInfall, type InfallSample } from "@/lib/physics/infall";
+import { clampSpin, iscoRadius } from "@/lib/physics/kerr";
+import type { Vec3 } from "@/lib/physics/vec3";
+import {
+  buildBlackHoleShaders,
+  MAX_TRACE_STEPS,
+} from "@/lib/shaders/black-hole";
+import { reportShaderErrors } from "@/lib/shaders/diagnostics";
+import {
+  createBlackbodyTexture,
+  createStarMapTexture,
+  loadStarMapTexture,
+} from "@/lib/shaders/textures";
+import { loadSkyTexture, type SkyTexture } from "@/lib/sky-texture";
+import { createTemporalUpscaler } from "@/lib/temporal-upscaler";
+import { cn } from "@/lib/utils";
+import { encodeFrames, type VideoExportOptions } from "@/lib/video-export";
+import {
+  defaultSceneConfig,
+  MAX_BODIES,
+  validateSceneConfig,
+  type CameraPose,
+  type RingOverlay,
+  type SceneConfig,
+  type SceneConfigInput,
+} from "@/lib/scene-config";
+
+// Seconds of simulated time. Everything animated reads from this rather than
+// the frame clock, so a shared link can restore the exact moment. Recording
+// pauses it and sets the time of each frame explicitly.
+type SimulationClock = { time: number; paused: boolean };
+
+// Quality overrides applied while an image is exported
+type OfflineRender = { supersample: number };
+
+type ExportProgress = {
+  label: string;
+  done: number;
+  total: number;
+};
+
+type BlackHoleProps = {
+  config: SceneConfig;
+  clock: SimulationClock;
+  offline: OfflineRender;
+  // Where the camera is heading; written by the orbit controls
+  orbit: MutableRefObject<CameraPose>;
+  // While set, a camera path drives the view instead of the orbit controls
+  pathSample: MutableRefObject<CameraSample | null>;
+  // Called whenever user input moves the camera
+  onOrbitChange?: () => void;
+  // Loaded background image, shown instead of the stars
+  skyTexture: SkyTexture | null;
+};
+
+type DistantSunProps = {
+  sun: SceneConfig["lights"]["sun"];
+};
+
+const RING_OVERLAY_MODES: Record<RingOverlay, number> = {
+  physical: 0,
+  artistic: 1,
+  split: 2,
+};
 
-type PlanetProps = {
-  position: [number, number, number];
-  size: number;
-  color: string;
-  rotationSpeed?: number;
+const SKY_MODES: Record<SkyTexture["kind"], number> = {
+  equirectangular: 1,
+  cube: 2,
 };
 
+// Scratch objects for the per-frame sky rotation
+const skyEuler = new THREE.Euler();
+const skyMatrix = new THREE.Matrix4();
+
+const OVERLAY_BUTTON_CLASS =
+  "border-white/20 bg-black/60 text-white hover:bg-white/10 hover:text-white";
+
+const BLACK_HOLE_SHADERS = buildBlackHoleShaders();
+
+// Time constant of the fade between render looks, in seconds
+const LOOK_FADE_TIME = 0.25;
+
 interface WheelEventExtended extends WheelEvent {
   deltaY: number;
 }
 
-function Planet({ position, size, color, rotationSpeed = 0.01 }: PlanetProps) {
-  const meshRef = useRef<THREE.Mesh>();
-
-  useFrame(() => {
-    if (meshRef.current) {
-      // Orbit animation
-      const orbitRadius = Math.sqrt(position[0] ** 2 + position[2] ** 2);
-      const angle = meshRef.current.userData.angle || 0;
-      const newAngle = angle + rotationSpeed;
+// The dive or Endurance orbit under way: when it began, in simulated
+// seconds, and where the camera is on it. On the orbit the camera can look
+// around; the dive keeps it facing the centre.
+type Geodesic = {
+  start: number;
+  sample: (seconds: number) => InfallSample;
+  freeLook: boolean;
+};
 
-      meshRef.current.position.x = Math.cos(newAngle) * orbitRadius;
-      meshRef.current.position.z = Math.sin(newAngle) * orbitRadius;
-      meshRef.current.position.y = position[1]; // Keep Y position the same
+const orbitPosition = ({ phi, theta, distance }: CameraPose): Vec3 => [
+  distance * Math.sin(phi) * Math.cos(theta),
+  distance * Math.cos(phi),
+  distance * Math.sin(phi) * Math.sin(theta),
+];
 
-      // Store the angle for next frame
-      meshRef.current.userData.angle = newAngle;
+// Put the camera on its orbit around the hole, looking at the centre
+function placeCamera(camera: THREE.Camera, pose: CameraPose) {
+  camera.position.set(...orbitPosition(pose));
+  camera.lookAt(0, 0, 0);
+}
 
-      // Planet self-rotation
-      meshRef.current.rotation.y += rotationSpeed * 2;
-    }
+function SimulationClockDriver({ clock }: { clock: SimulationClock }) {
+  useFrame((_, delta) => {
+    // Clamped so a stalled tab or a long export doesn't jump the animation
+    if (!clock.paused) clock.time += Math.min(delta, 0.1);
   });
 
-  return (
-    <mesh ref={meshRef} position={position}>
-      <sphereGeometry args={[size, 32, 32]} />
-      <meshStandardMaterial
-        color={color}
-        roughness={0.5}
-        metalness={0.2}
-        emissive={color}
-        emissiveIntensity={0.2} // Adding some self-illumination
-      />
-    </mesh>
-  );
+  return null;
 }
 
-function BlackHole() {
-  const meshRef = useRef<THREE.Mesh>(null);
-  const { camera, size, gl } = useThree();
-  const isZoomingRef = useRef(false);
+function BlackHole({
+  config,
+  clock,
+  offline,
+  orbit,
+  pathSample,
+  onOrbitChange,
+  skyTexture,
+}: BlackHoleProps) {
+  const { camera, gl, scene } = useThree();
+  const lookSettled = useRef(false);
+  const {
+    distance,
+    minDistance,
+    maxDistance,
+    phi,
+    theta,
+    mode,
+    diveSwirl,
+    endurance,
+  } = config.camera;
+  const pixelRatio = config.render.pixelRatio;
+  const bodyOrbits = useMemo(
+    () =>
+      createBodyOrbits({ bodies: config.bodies, blackHole: config.blackHole }),
+    [config.bodies, config.blackHole]
+  );
 
+  // Switching to dive mode drops the camera from its orbit at the current
+  // moment, and the Endurance orbit sets off from the camera's azimuth;
+  // changing the hole, the swirl or the orbit starts over
+  const geodesic = useRef<Geodesic | null>(null);
+  // Turn of the Endurance camera from facing the centre, in radians
+  const heading = useRef({ yaw: 0, pitch: 0 });
   useEffect(() => {
-    if (!meshRef.current) return;
+    const { blackHole } = config;
+    heading.current = { yaw: 0, pitch: 0 };
+    if (mode === "dive") {
+      geodesic.current = {
+        start: clock.time,
+        sample: createInfall(
+          orbitPosition(orbit.current),
+          blackHole.mass,
+          blackHole.spin,
+          diveSwirl
+        ),
+        freeLook: false,
+      };
+    } else if (mode === "endurance") {
+      geodesic.current = {
+        start: clock.time,
+        sample: createEnduranceCamera(
+          endurance,
+          blackHole,
+          orbit.current.theta
+        ),
+        freeLook: true,
+      };
+    } else {
+      geodesic.current = null;
+    }
+  }, [mode, diveSwirl, endurance, config.blackHole, clock, orbit]);
 
-    gl.setPixelRatio(window.devicePixelRatio);
+  useEffect(() => {
+    gl.setPixelRatio(pixelRatio ?? window.devicePixelRatio);
+  }, [gl, pixelRatio]);
 
+  // Built once - every adjustable parameter is a uniform written in useFrame,
+  // so live edits never recompile the shader or recreate the material
+  const material = useMemo(() => {
     // Create a simpler shader without dynamic AA sampling
-    const material = new THREE.ShaderMaterial({
+    return new THREE.ShaderMaterial({
       uniforms: {
         time: { value: 0 },
-        resolution: { value: new THREE.Vector2(size.width, size.height) },
+        resolution: { value: new THREE.Vector2() },
         cameraPos: { value: new THREE.Vector3() },
         cameraMatrix: { value: new THREE.Matrix4() },
+        cameraProjection: { value: new THREE.Matrix4() },
+        cameraProjectionInverse: { value: new THREE.Matrix4() },
         blackHoleMass: { value: 1.0 },
-        isZooming: { value: 0.0 }, // Use a uniform instead of define for quality control
+        spin: { value: 0.0 },
+        diskInnerRadius: { value: iscoRadius(1.0, 0.0) },
+        diskDirection: { value: 1.0 },
+        ringOverlay: { value: 0.0 },
+        showImageOrder: { value: 0.0 },
+        diskOuterRadius: { value: 40.0 },
+        diskBaseThickness: { value: 0.2 },
+        maxSteps: { value: 200.0 },
+        diskTemperature: { value: 6000.0 },
+        dopplerStrength: { value: 1.0 },
+        dopplerBeaming: { value: 1.0 },
+        colorShift: { value: 1.0 },
+        diskPalette: { value: 0.0 },
+        volumetricDisk: { value: 0.0 },
+        diskOpticalDepth: { value: 1.0 },
+        starDensity: { value: 1.0 },
+        exposure: { value: 1.0 },
+        supersample: { value: 0.0 },
+        blackbodyLut: { value: createBlackbodyTexture() },
+        starMap: { value: createStarMapTexture() },
+        skyMode: { value: 0.0 },
+        skyMap: { value: null },
+        skyCube: { value: null },
+        skySize: { value: 1.0 },
+        skySrgb: { value: 0.0 },
+        skyIntensity: { value: 1.0 },
+        skyRotation: { value: new THREE.Matrix3() },
+        bodies: {
+          value: Array.from({ length: MAX_BODIES }, () => new THREE.Vector4()),
+        },
+        bodyColors: {
+          value: Array.from({ length: MAX_BODIES }, () => new THREE.Color()),
+        },
+        bodyCount: { value: 0.0 },
+        sun: { value: new THREE.Vector4() },
+        sunColor: { value: new THREE.Color() },
+        sunHaloRadius: { value: 0.0 },
+        bodyLighting: { value: new THREE.Vector3() },
+        coreLight: { value: new THREE.Vector3() },
+        diving: { value: 0.0 },
+        observerCoords: { value: new THREE.Vector3() },
+        observerFrame: { value: new THREE.Matrix4() },
+        cameraVelocity: { value: new THREE.Vector3() },
+        jitter: { value: new THREE.Vector2() },
       },
-      vertexShader: `
-        varying vec3 vWorldPosition;
-        varying vec3 vNormal;
-        
-        void main() {
-          vNormal = normalize(normalMatrix * normal);
-          vec4 worldPosition = modelMatrix * vec4(position, 1.0);
-          vWorldPosition = worldPosition.xyz;
-          gl_Position = projectionMatrix * modelViewMatrix * vec4(position, 1.0);
-        }
-      `,
-      fragmentShader: `
-        uniform float time;
-        uniform vec2 resolution;
-        uniform vec3 cameraPos;
-        uniform mat4 cameraMatrix;
-        uniform float blackHoleMass;
-        uniform float isZooming;
-        
-        varying vec3 vWorldPosition;
-        varying vec3 vNormal;
-        
-        const float PI = 3.14159265359;
-        
-        // Fixed quality settings - no more dynamic AA_SAMPLES
-        const int MAX_STEPS = 150;
-        const float MAX_DIST = 100.0;
-        const float EPSILON = 0.001;
-        
-        // Get a procedural star field with subtle nebula background
-        vec3 stars(vec3 dir) {
-          // Starfield with several layers
-          vec3 starColor = vec3(0.0);
-          
-          // Main stars
-          float seed1 = fract(sin(dot(dir, vec3(123.456, 789.321, 456.789))) * 43758.5453);
-          float seed2 = fract(sin(dot(dir, vec3(234.567, 891.432, 567.891))) * 22973.8901);
-          
-          if (seed1 > 0.9997) {
-            // Bright star
-            float brightness = 0.8 + 0.2 * seed2;
-            starColor = vec3(brightness);
-          } else if (seed1 > 0.999) {
-            // Medium star
-            float brightness = 0.4 + 0.2 * seed2;
-            starColor = vec3(brightness);
-          } else if (seed1 > 0.996) {
-            // Dim star
-            float brightness = 0.1 + 0.1 * seed2;
-            starColor = vec3(brightness);
-          }
-          
-          // Add very subtle nebula in background (blue/purple tones)
-          vec3 nebula = vec3(0.0);
-          float nebulaNoise = fract(sin(dot(dir * 0.5, vec3(45.78, 113.94, 97.41))) * 45758.5453);
-          float nebulaPattern = fract(sin(dot(dir * 0.2, vec3(89.23, 25.87, 54.28))) * 22973.8901);
-          
-          if (nebulaNoise > 0.85) { // Higher threshold for less nebula
-            float nebulaStrength = (nebulaNoise - 0.85) * 4.0 * 0.015; // Reduced strength
-            nebula = mix(
-              vec3(0.1, 0.2, 0.4), // Subtle blue
-              vec3(0.2, 0.1, 0.3), // Subtle purple
-              nebulaPattern
-            ) * nebulaStrength;
-          }
-          
-          return starColor + nebula;
-        }
-        
-        // Accurately calculate accretion disk color with temperature gradient and wave animation
-        vec3 getDiskColor(float radius, float angle, float innerRadius, float time) {
-          // Temperature follows T ∝ r^(-3/4) for thin disks
-          float temperature = pow(innerRadius / radius, 0.75);
-          
-          // Color gradient based on Gargantua orange-yellow appearance
-          vec3 color;
-          if (temperature > 0.8) {
-            // Hot inner region (bright yellow-white)
-            color = vec3(1.0, 0.9, 0.7);
-          } else if (temperature > 0.6) {
-            // Middle region (orange)
-            color = vec3(1.0, 0.6, 0.2);
-          } else {
-            // Outer region (darker orange-red)
-            color = vec3(0.9, 0.3, 0.0);
-          }
-          
-          // Wave animation pattern - adds vertical wave motion
-          float waveHeight = 0.3;
-          float waveFreq = 3.0;
-          float waveSpeed = 0.8;
-          float verticalOffset = sin(angle * waveFreq + time * waveSpeed) * waveHeight;
-          
-          // Dynamic swirling pattern based on time with wave effect
-          float rotationSpeed = 0.3;
-          float swirl = 0.85 + 0.15 * sin(
-            angle * 6.0 + 
-            radius * 1.5 - 
-            time * rotationSpeed * (1.0 + 1.0/radius) +
-            verticalOffset
-          );
-          
-          // Multiple rings for more detail
-          float rings = 0.92 + 0.08 * sin(radius * 20.0);
-          float fineRings = 0.95 + 0.05 * sin(radius * 100.0);
-          
-          // Add pulsing wave animation
-          float pulse = 1.0 + 0.15 * sin(time * 0.5 + radius * 2.0);
-          
-          // Increase overall brightness
-          return color * swirl * rings * fineRings * pulse * 2.5;
-        }
-        
-        // Apply relativistic Doppler and gravitational effects to color
-        vec3 applyRelativisticEffects(vec3 color, float diskRadius, float doppler, float schwarzschildRadius) {
-          // 1. Apply Doppler beaming (I ∝ D^4)
-          float beamingFactor = pow(doppler, 4.0);
-          color *= beamingFactor;
-          
-          // 2. Apply Doppler color shift for orange-yellow disk
-          if (doppler > 1.0) {
-            // Blueshift (approaching)
-            color.r *= 0.9 / doppler;
-            color.g *= 1.0;
-            color.b *= doppler * 1.1;
-          } else {
-            // Redshift (receding)
-            color.r *= 1.1 / doppler;
-            color.g *= 1.0 / doppler;
-            color.b *= doppler * 0.8;
-          }
-          
-          // 3. Apply gravitational redshift
-          float gravRedshift = sqrt(1.0 - schwarzschildRadius / diskRadius);
-          color *= gravRedshift;
-          
-          return color;
-        }
-        
-        // Ray march through the scene with adaptive stepping
-        vec3 rayMarchBlackHole(vec3 ro, vec3 rd) {
-          // Calculate physics parameters
-          float schwarzschildRadius = 2.0 * blackHoleMass;
-          float photonSphereRadius = 1.5 * schwarzschildRadius;
-          float innerDiskRadius = 3.0 * schwarzschildRadius;
-          float outerDiskRadius = 20.0 * schwarzschildRadius;
-          float diskThickness = 0.1 * schwarzschildRadius;
-          
-          // Add wave-like thickness variation to disk
-          diskThickness *= (1.0 + 0.2 * sin(time * 0.3));
-          
-          // Ray position
-          vec3 p = ro;
-          float totalDistance = 0.0;
-          
-          // Store closest approach to black hole
-          float closestApproach = MAX_DIST;
-          
-          // Variable to track if we've passed through the disk
-          bool hitDisk = false;
-          vec3 diskColor = vec3(0.0);
-          float diskVisibility = 0.0;
-          
-          // Trace the ray
-          for (int i = 0; i < MAX_STEPS; i++) {
-            // Distance from current point to black hole center
-            float distToCenter = length(p);
-            closestApproach = min(closestApproach, distToCenter);
-            
-            // Check for collision with event horizon
-            if (distToCenter <= schwarzschildRadius + EPSILON) {
-              return vec3(0.0); // Black hole is completely black
-            }
-            
-            // Calculate gravitational deflection - more accurate formula
-            float lensStrength = 1.5 * schwarzschildRadius / (distToCenter * distToCenter);
-            vec3 toBlackHole = normalize(-p);
-            rd = normalize(rd + toBlackHole * lensStrength);
-            
-            // Adaptive step size - smaller near black hole and disk
-            float stepFactor = 0.05;
-            float diskFactor = 1.0;
-            
-            // Take smaller steps near the disk plane
-            if (abs(p.y) < diskThickness * 3.0 && 
-                distToCenter > innerDiskRadius * 0.5 && 
-                distToCenter < outerDiskRadius * 1.5) {
-              diskFactor = 0.2;
-            }
-            
-            float step = max(distToCenter * stepFactor * diskFactor, 0.05);
-            
-            // Check if we're about to cross the disk
-            vec3 nextP = p + rd * step;
-            
-            // Wave animation in disk position - makes disk undulate
-            float diskYOffset = sin(length(p.xz) * 0.2 - time * 0.8) * diskThickness * 0.5;
-            
-            if ((p.y - diskYOffset) * (nextP.y - diskYOffset) <= 0.0) { // Sign change in y = crossing the warped plane
-              float diskRadius = length(p.xz);
-              
-              if (diskRadius >= innerDiskRadius && diskRadius <= outerDiskRadius) {
-                // We're hitting the disk
-                hitDisk = true;
-                float diskAngle = atan(p.z, p.x);
-                
-                // Orbital velocity (Keplerian)
-                float orbitalSpeed = sqrt(blackHoleMass / pow(diskRadius, 3.0));
-                
-                // Calculate disk velocity vector
-                vec3 diskVelocity = normalize(vec3(-p.z, 0.0, p.x)) * orbitalSpeed;
-                
-                // Relativistic Doppler effect (approaching = blueshift, receding = redshift)
-                float dopplerFactor = 1.0 / (1.0 - dot(normalize(diskVelocity), rd) * 0.4);
-                
-                // Get disk color with animated rotation
-                vec3 baseColor = getDiskColor(diskRadius, diskAngle, innerDiskRadius, time);
-                
-                // Apply all relativistic effects
-                baseColor = applyRelativisticEffects(baseColor, diskRadius, dopplerFactor, schwarzschildRadius);
-                
-                // Calculate view angle
-                float viewAngle = abs(dot(rd, vec3(0.0, 1.0, 0.0)));
-                diskVisibility = smoothstep(0.0, 0.2, viewAngle);
-                
-                diskColor = baseColor * diskVisibility;
-              }
-            }
-            
-            // Move along the ray
-            p += rd * step;
-            totalDistance += step;
-            
-            // Check if we've gone too far
-            if (totalDistance > MAX_DIST) {
-              if (hitDisk) {
-                return diskColor;
-              } else {
-                return stars(rd);
-              }
-            }
-          }
-          
-          if (hitDisk) {
-            return diskColor;
-          } else {
-            return stars(rd);
-          }
-        }
-        
-        void main() {
-          // Simple anti-aliasing based on isZooming uniform
-          vec3 finalColor;
-          
-          // During zooming: simpler rendering (no AA)
-          if (isZooming > 0.5) {
-            // Single ray direction - no AA
-            vec3 rayDirection = normalize(vWorldPosition - cameraPos);
-            finalColor = rayMarchBlackHole(cameraPos, rayDirection);
-          } 
-          // Not zooming: higher quality with 2x2 fixed AA
-          else {
-            finalColor = vec3(0.0);
-            
-            // 2x2 fixed grid anti-aliasing
-            for (int i = 0; i < 4; i++) {
-              float x = mod(float(i), 2.0) - 0.5;
-              float y = floor(float(i) / 2.0) - 0.5;
-              
-              // Calculate ray direction with slight offset for anti-aliasing
-              vec3 offset = normalize(vWorldPosition - cameraPos);
-              vec3 right = normalize(cross(vec3(0.0, 1.0, 0.0), offset));
-              vec3 up = normalize(cross(offset, right));
-              
-              float pixelOffsetX = x * 0.001;
-              float pixelOffsetY = y * 0.001;
-              
-              vec3 rayDirection = normalize(offset + right * pixelOffsetX + up * pixelOffsetY);
-              finalColor += rayMarchBlackHole(cameraPos, rayDirection);
-            }
-            
-            // Average the samples
-            finalColor /= 4.0;
-          }
-          
-          // Calculate parameters for Einstein ring
-          float schwarzschildRadius = 2.0 * blackHoleMass;
-          float photonSphereRadius = 1.5 * schwarzschildRadius;
-          
-          // Direction to black hole center
-          vec3 dirToBlackHole = normalize(-cameraPos);
-          
-          // Direction to current fragment
-          vec3 rayDir = normalize(vWorldPosition - cameraPos);
-          
-          // Calculate view angle from camera to black hole
-          float viewAngleCos = dot(rayDir, dirToBlackHole);
-          float viewAngle = acos(viewAngleCos);
-          
-          // Calculate Einstein ring angle
-          float distToBlackHole = length(cameraPos);
-          float einsteinRingAngle = atan(photonSphereRadius / distToBlackHole);
-          
-          // Create smooth, thin Einstein ring
-          float ringWidth = 0.008 * einsteinRingAngle;
-          float ringFactor = smoothstep(einsteinRingAngle - ringWidth, einsteinRingAngle, viewAngle) * 
-                           smoothstep(einsteinRingAngle + ringWidth, einsteinRingAngle, viewAngle);
-          
-          // Bright, blue-white glow for the Einstein ring (changed from orange-gold)
-          finalColor += vec3(0.6, 0.8, 1.0) * ringFactor * 6.0;
-          
-          // Secondary lensing effect (subtler)
-          float secondaryRingWidth = ringWidth * 0.5;
-          float secondaryRingAngle = einsteinRingAngle * 0.7;
-          float secondaryRingFactor = smoothstep(secondaryRingAngle - secondaryRingWidth, secondaryRingAngle, viewAngle) * 
-                                    smoothstep(secondaryRingAngle + secondaryRingWidth, secondaryRingAngle, viewAngle);
-          
-          // Blue-purple secondary ring (changed from orange-red)
-          finalColor += vec3(0.4, 0.5, 0.9) * secondaryRingFactor * 2.0;
-          
-          // Remove the subtle overall orange glow (comment it out)
-          // float diskGlowAngle = PI * 0.4;
-          // float diskGlowFactor = smoothstep(diskGlowAngle + 0.1, diskGlowAngle - 0.1, viewAngle) * 0.15;
-          // finalColor += vec3(0.8, 0.4, 0.1) * diskGlowFactor;
-          
-          // HDR tone mapping (improved for better contrast)
-          finalColor = finalColor / (finalColor + vec3(1.0));
-          
-          // Increase contrast slightly
-          finalColor = pow(finalColor, vec3(1.1));
-          
-          // Gamma correction
-          finalColor = pow(finalColor, vec3(1.0 / 2.2));
-          
-          gl_FragColor = vec4(finalColor, 1.0);
-        }
-      `,
-      side: THREE.BackSide,
+      vertexShader: BLACK_HOLE_SHADERS.vertex.code,
+      fragmentShader: BLACK_HOLE_SHADERS.fragment.code,
     });
+  }, []);
+
+  useEffect(
+    () => () => {
+      material.uniforms.blackbodyLut.value.dispose();
+      material.uniforms.starMap.value.dispose();
+      material.dispose();
+    },
+    [material]
+  );
 
-    // Apply material to mesh
-    meshRef.current.material = material;
-
-    // Update function
-    const updateMaterial = ({
-      time,
-      camera,
-      isZooming,
-    }: {
-      time: number;
-      camera: THREE.Camera;
-      isZooming: boolean;
-    }) => {
-      material.uniforms.time.value = time;
-      material.uniforms.cameraPos.value.copy(camera.position);
-      material.uniforms.cameraMatrix.value.copy(camera.matrixWorld);
-
-      // Update zoom quality control
-      material.uniforms.isZooming.value = isZooming ? 1.0 : 0.0;
+  // The sky starts empty and fills in once the baked stars arrive
+  useEffect(() => {
+    let current = true;
+    loadStarMapTexture().then(
+      (texture) => {
+        if (!current) {
+          texture.dispose();
+          return;
+        }
+        material.uniforms.starMap.value.dispose();
+        material.uniforms.starMap.value = texture;
+      },
+      (error) =>
+        toast({
+          variant: "destructive",
+          title: "Could not load stars",
+          description: error instanceof Error ? error.message : String(error),
+        })
+    );
+    return () => {
+      current = false;
     };
+  }, [material]);
+
+  useEffect(() => {
+    reportShaderErrors(gl, scene, camera, material, BLACK_HOLE_SHADERS);
+  }, [gl, scene, camera, material]);
+
+  // The live view traces at whatever resolution keeps to the frame rate and
+  // builds the full resolution back up over frames
+  const rays = useRef<THREE.Mesh>(null);
+  const upscaler = useMemo(() => createTemporalUpscaler(gl), [gl]);
+  useEffect(() => () => upscaler.dispose(), [upscaler]);
+  const resolutionScale = useMemo(
+    () => createResolutionController(config.render.targetFps),
+    [config.render.targetFps]
+  );
+  // What the last frame showed, to tell when the view holds still; fading
+  // is set while the render look is still easing toward its settings
+  const lastView = useRef({
+    frame: 0,
+    fading: true,
+    time: NaN,
+    config,
+    skyTexture,
+    camera: new THREE.Matrix4(),
+    projection: new THREE.Matrix4(),
+  });
+
+  // Camera uniforms follow whichever camera is rendering, so exports can
+  // draw through their own (offset) snapshot of the view
+  useEffect(() => {
+    material.onBeforeRender = (_renderer, _scene, renderCamera) => {
+      material.uniforms.cameraPos.value.setFromMatrixPosition(
+        renderCamera.matrixWorld
+      );
+      material.uniforms.cameraMatrix.value.copy(renderCamera.matrixWorld);
+      material.uniforms.cameraProjection.value.copy(
+        renderCamera.projectionMatrix
+      );
+      material.uniforms.cameraProjectionInverse.value.copy(
+        renderCamera.projectionMatrixInverse
+      );
 
-    meshRef.current.userData.updateMaterial = updateMaterial;
-  }, [size, gl]);
+      // Exports trace every ray to the full step budget, unjittered
+      material.uniforms.supersample.value = offline.supersample;
+      if (offline.supersample > 0) {
+        material.uniforms.maxSteps.value = MAX_TRACE_STEPS;
+        material.uniforms.jitter.value.set(0, 0);
+      }
+    };
+  }, [material, offline]);
 
   // Update on each frame
-  useFrame((state) => {
-    if (meshRef.current && meshRef.current.userData.updateMaterial) {
-      meshRef.current.userData.updateMaterial({
-        time: state.clock.getElapsedTime(),
-        camera: camera,
-        isZooming: isZoomingRef.current,
-      });
+  useFrame((state, delta) => {
+    const sample = pathSample.current;
+    const { blackHole, disk, sky, render } = applyPathParameters(
+      config,
+      sample?.parameters
+    );
+
+    const perspective = camera as THREE.PerspectiveCamera;
+    const fov = sample?.fov ?? config.camera.fov;
+    if (perspective.fov !== fov) {
+      perspective.fov = fov;
+      perspective.updateProjectionMatrix();
+    }
+
+    // The diving camera rides the fall looking at the centre, the
+    // Endurance camera its orbit looking wherever it has been turned, and
+    // the shader traces their rays from the observer's own frame
+    const ride = geodesic.current?.sample(clock.time - geodesic.current.start);
+    if (ride) {
+      camera.position.set(...ride.position);
+      camera.lookAt(0, 0, 0);
+      if (geodesic.current?.freeLook) {
+        camera.rotateY(heading.current.yaw);
+        camera.rotateX(heading.current.pitch);
+      }
+      material.uniforms.observerCoords.value.set(
+        ride.state.r,
+        ride.state.theta,
+        ride.state.phi
+      );
+      material.uniforms.observerFrame.value.fromArray(ride.frame);
+    }
+    material.uniforms.diving.value = ride ? 1.0 : 0.0;
+
+    material.uniforms.time.value = clock.time;
+    material.uniforms.resolution.value.set(state.size.width, state.size.height);
+
+    // Spin and disk geometry - by default the inner edge sits at the ISCO
+    const mass = blackHole.mass;
+    const schwarzschildRadius = 2 * mass;
+    material.uniforms.blackHoleMass.value = mass;
+    material.uniforms.spin.value = clampSpin(mass, blackHole.spin);
+    material.uniforms.diskInnerRadius.value =
+      disk.innerRadius === "isco"
+        ? iscoRadius(mass, blackHole.spin, !disk.retrograde)
+        : disk.innerRadius * schwarzschildRadius;
+    material.uniforms.diskOuterRadius.value =
+      disk.outerRadius * schwarzschildRadius;
+    material.uniforms.diskBaseThickness.value =
+      disk.thickness * schwarzschildRadius;
+    material.uniforms.diskDirection.value = disk.retrograde ? -1.0 : 1.0;
+
+    // The orbiting camera's own motion aberrates and Doppler shifts the
+    // view; a geodesic's frame already carries its own motion
+    material.uniforms.cameraVelocity.value.set(
+      ...(ride
+        ? ([0, 0, 0] as Vec3)
+        : cameraVelocity(config.camera, camera.position.toArray(), {
+            blackHole,
+            disk,
+          }))
+    );
+    material.uniforms.diskTemperature.value = disk.temperature;
+    material.uniforms.volumetricDisk.value = disk.volumetric ? 1.0 : 0.0;
+    material.uniforms.diskOpticalDepth.value = disk.opticalDepth;
+
+    // The look eases toward its settings, so switching render presets
+    // crossfades instead of popping (except on the first frame)
+    const fade = lookSettled.current
+      ? 1 - Math.exp(-Math.min(delta, 0.1) / LOOK_FADE_TIME)
+      : 1;
+    lookSettled.current = true;
+    const look = {
+      dopplerStrength: disk.dopplerStrength,
+      dopplerBeaming: disk.beaming ? 1 : 0,
+      colorShift: disk.colorShift ? 1 : 0,
+      diskPalette: disk.palette === "artistic" ? 1 : 0,
+    };
+    for (const [name, target] of Object.entries(look)) {
+      const uniform = material.uniforms[name];
+      if (Math.abs(target - uniform.value) > 1e-3) {
+        lastView.current.fading = true;
+      }
+      uniform.value += (target - uniform.value) * fade;
     }
+    material.uniforms.starDensity.value = sky.starDensity;
+
+    // Background image, and the sky's orientation (the shader maps scene
+    // directions into the sky, hence the inverse rotation)
+    material.uniforms.skyMode.value = skyTexture
+      ? SKY_MODES[skyTexture.kind]
+      : 0.0;
+    material.uniforms.skyMap.value =
+      skyTexture?.kind === "equirectangular" ? skyTexture.texture : null;
+    material.uniforms.skyCube.value =
+      skyTexture?.kind === "cube" ? skyTexture.texture : null;
+    material.uniforms.skySize.value = skyTexture?.size ?? 1.0;
+    material.uniforms.skySrgb.value = skyTexture?.srgb ? 1.0 : 0.0;
+    material.uniforms.skyIntensity.value = sky.intensity;
+    skyEuler.set(
+      ...(sky.rotation.map(THREE.MathUtils.degToRad) as [
+        number,
+        number,
+        number
+      ])
+    );
+    material.uniforms.skyRotation.value
+      .setFromMatrix4(skyMatrix.makeRotationFromEuler(skyEuler))
+      .transpose();
+
+    // Planets and the sun, traced as spheres so they are lensed too
+    // (those that have fallen into the hole are left out)
+    const { bodies, lights } = config;
+    let bodyCount = 0;
+    bodies.forEach((body, index) => {
+      const { position, captured } = bodyOrbits[index](clock.time);
+      if (captured) return;
+      material.uniforms.bodies.value[bodyCount].set(...position, body.size);
+      material.uniforms.bodyColors.value[bodyCount]
+        .set(body.color)
+        .convertSRGBToLinear();
+      bodyCount++;
+    });
+    material.uniforms.bodyCount.value = bodyCount;
+    material.uniforms.sun.value.set(
+      ...lights.sun.position,
+      lights.sun.enabled ? lights.sun.radius : 0.0
+    );
+    material.uniforms.sunColor.value
+      .set(lights.sun.color)
+      .convertSRGBToLinear();
+    material.uniforms.sunHaloRadius.value = lights.sun.haloRadius;
+    material.uniforms.bodyLighting.value.set(
+      lights.ambient.intensity,
+      lights.sun.intensity,
+      lights.sun.directionalIntensity
+    );
+    material.uniforms.coreLight.value.set(
+      lights.core.intensity,
+      lights.core.distance,
+      lights.core.decay
+    );
+
+    // Render quality
+    material.uniforms.maxSteps.value = render.maxSteps;
+    material.uniforms.exposure.value = render.exposure;
+
+    // Ring rendering and image-order debug view
+    material.uniforms.ringOverlay.value =
+      RING_OVERLAY_MODES[render.ringOverlay];
+    material.uniforms.showImageOrder.value = render.showImageOrder ? 1.0 : 0.0;
   });
 
+  // Draws the frame in place of the default render: the ray tracer through
+  // the temporal upscaler, then whatever is rasterised over it
+  useFrame((_, delta) => {
+    const mesh = rays.current;
+    if (!mesh) return;
+
+    camera.updateMatrixWorld();
+    const view = lastView.current;
+    const still =
+      !view.fading &&
+      view.time === clock.time &&
+      view.config === config &&
+      view.skyTexture === skyTexture &&
+      view.camera.equals(camera.matrixWorld) &&
+      view.projection.equals(camera.projectionMatrix);
+    view.fading = false;
+    view.time = clock.time;
+    view.config = config;
+    view.skyTexture = skyTexture;
+    view.camera.copy(camera.matrixWorld);
+    view.projection.copy(camera.projectionMatrix);
+
+    const scale = resolutionScale(delta);
+    upscaler.render(mesh, material.uniforms.jitter.value, camera, {
+      scale: config.render.adaptiveResolution ? scale : 1,
+      jitter: config.render.antialias ? jitterOffset(view.frame++) : [0, 0],
+      still,
+    });
+
+    mesh.visible = false;
+    gl.autoClear = false;
+    gl.render(scene, camera);
+    gl.autoClear = true;
+    mesh.visible = true;
+  }, 1);
+
   // Enhanced smooth camera controls with direct zoom response
   useEffect(() => {
     const canvas = document.querySelector("canvas");
@@ -453,28 +566,37 @@ function BlackHole() {
 
     let isDragging = false;
     let previousMousePosition = { x: 0, y: 0 };
-    let targetPosition = { phi: Math.PI * 0.4, theta: Math.PI * 0.25 };
-    let currentPosition = { phi: Math.PI * 0.4, theta: Math.PI * 0.25 };
-    let targetDistance = 30; // Start further out
-    let currentDistance = 30;
+    // The target lives in the orbit ref so the current view can be shared
+    const target = { phi, theta, distance };
+    orbit.current = target;
+    let currentPosition = { phi, theta };
+    let currentDistance = distance;
     let velocity = { phi: 0, theta: 0 };
     let isMoving = false;
-    let zoomTimeout: ReturnType<typeof setTimeout>;
 
     // Update camera position with direct zoom response
     const updateCameraPosition = () => {
+      // A dive or the Endurance orbit moves the camera itself
+      if (geodesic.current) return;
+
+      const sample = pathSample.current;
+      if (sample) {
+        camera.position.set(...sample.position);
+        camera.lookAt(...sample.target);
+        return;
+      }
+
       // Smooth rotation but direct zoom response
-      currentPosition.phi += (targetPosition.phi - currentPosition.phi) * 0.15;
-      currentPosition.theta +=
-        (targetPosition.theta - currentPosition.theta) * 0.15;
+      currentPosition.phi += (target.phi - currentPosition.phi) * 0.15;
+      currentPosition.theta += (target.theta - currentPosition.theta) * 0.15;
 
       // Direct zoom response - KEY for reducing lag
-      currentDistance = targetDistance;
+      currentDistance = target.distance;
 
       // Apply rotation velocity with damping
       if (isMoving) {
-        targetPosition.phi += velocity.phi;
-        targetPosition.theta += velocity.theta;
+        target.phi += velocity.phi;
+        target.theta += velocity.theta;
 
         // Damping
         velocity.phi *= 0.95;
@@ -485,26 +607,14 @@ function BlackHole() {
           Math.abs(velocity.theta) < 0.0001
         ) {
           isMoving = false;
+          onOrbitChange?.();
         }
       }
 
       // Clamp phi to avoid flipping
-      targetPosition.phi = Math.max(
-        0.1,
-        Math.min(Math.PI - 0.1, targetPosition.phi)
-      );
+      target.phi = Math.max(0.1, Math.min(Math.PI - 0.1, target.phi));
 
-      // Convert to Cartesian coordinates
-      const sinPhi = Math.sin(currentPosition.phi);
-      const cosPhi = Math.cos(currentPosition.phi);
-      const sinTheta = Math.sin(currentPosition.theta);
-      const cosTheta = Math.cos(currentPosition.theta);
-
-      camera.position.x = currentDistance * sinPhi * cosTheta;
-      camera.position.y = currentDistance * cosPhi;
-      camera.position.z = currentDistance * sinPhi * sinTheta;
-
-      camera.lookAt(0, 0, 0);
+      placeCamera(camera, { ...currentPosition, distance: currentDistance });
     };
 
     let animationFrameId: number;
@@ -527,47 +637,55 @@ function BlackHole() {
       isDragging = false;
     };
 
+    // On the Endurance orbit dragging turns the camera where it is
+    const lookAround = (deltaX: number, deltaY: number) => {
+      if (!geodesic.current?.freeLook) return false;
+      const limit = Math.PI / 2 - 0.01;
+      heading.current.yaw += deltaX * 0.005;
+      heading.current.pitch = Math.max(
+        -limit,
+        Math.min(limit, heading.current.pitch + deltaY * 0.005)
+      );
+      return true;
+    };
+
     const onMouseMove = (e: MouseEvent) => {
       if (!isDragging) return;
 
       const deltaX = e.clientX - previousMousePosition.x;
       const deltaY = e.clientY - previousMousePosition.y;
+      if (lookAround(deltaX, deltaY)) {
+        previousMousePosition = { x: e.clientX, y: e.clientY };
+        return;
+      }
 
       // Calculate velocity for inertia
       velocity.theta = -(deltaX * 0.005);
       velocity.phi = -(deltaY * 0.005);
 
-      targetPosition.theta += velocity.theta;
-      targetPosition.phi += velocity.phi;
+      target.theta += velocity.theta;
+      target.phi += velocity.phi;
 
       previousMousePosition = { x: e.clientX, y: e.clientY };
       isMoving = true;
+      onOrbitChange?.();
     };
 
     const onWheel = (e: WheelEventExtended) => {
       e.preventDefault();
 
-      // Set zooming flag to reduce quality during zoom
-      isZoomingRef.current = true;
-
-      // Clear existing timeout
-      clearTimeout(zoomTimeout);
-
       // Multiplicative zoom for more natural feel
       const zoomFactor = 1.15;
 
       if (e.deltaY > 0) {
         // Zoom out - multiply by factor
-        targetDistance = Math.min(100, targetDistance * zoomFactor);
+        target.distance = Math.min(maxDistance, target.distance * zoomFactor);
       } else {
         // Zoom in - divide by factor
-        targetDistance = Math.max(5, targetDistance / zoomFactor);
+        target.distance = Math.max(minDistance, target.distance / zoomFactor);
       }
 
-      // Restore quality after zooming stops
-      zoomTimeout = setTimeout(() => {
-        isZoomingRef.current = false;
-      }, 150);
+      onOrbitChange?.();
     };
 
     // Improved touch support
@@ -589,11 +707,7 @@ function BlackHole() {
           e.touches[0].clientX - e.touches[1].clientX,
           e.touches[0].clientY - e.touches[1].clientY
         );
-        initialTargetDistance = targetDistance;
-
-        // Reduce quality during pinch zoom
-        isZoomingRef.current = true;
-        clearTimeout(zoomTimeout);
+        initialTargetDistance = target.distance;
       }
     };
 
@@ -601,17 +715,17 @@ function BlackHole() {
       if (isDragging && e.touches.length === 1) {
         const deltaX = e.touches[0].clientX - previousMousePosition.x;
         const deltaY = e.touches[0].clientY - previousMousePosition.y;
-
-        velocity.theta = -(deltaX * 0.005);
-        velocity.phi = -(deltaY * 0.005);
-
-        targetPosition.theta += velocity.theta;
-        targetPosition.phi += velocity.phi;
-
         previousMousePosition = {
           x: e.touches[0].clientX,
           y: e.touches[0].clientY,
         };
+        if (lookAround(deltaX, deltaY)) return;
+
+        velocity.theta = -(deltaX * 0.005);
+        velocity.phi = -(deltaY * 0.005);
+
+        target.theta += velocity.theta;
+        target.phi += velocity.phi;
         isMoving = true;
       } else if (e.touches.length === 2) {
         // Using distance ratio for more intuitive zoom
@@ -622,25 +736,17 @@ function BlackHole() {
 
         // Calculate ratio and apply to initial distance
         const ratio = currentTouchDistance / touchStartDistance;
-        targetDistance = Math.max(
-          5,
-          Math.min(100, initialTargetDistance / ratio)
+        target.distance = Math.max(
+          minDistance,
+          Math.min(maxDistance, initialTargetDistance / ratio)
         );
-
-        // Keep low quality during zoom
-        isZoomingRef.current = true;
-        clearTimeout(zoomTimeout);
       }
+
+      onOrbitChange?.();
     };
 
     const onTouchEnd = () => {
       isDragging = false;
-
-      // Restore quality after touch interaction
-      clearTimeout(zoomTimeout);
-      zoomTimeout = setTimeout(() => {
-        isZoomingRef.current = false;
-      }, 150);
     };
 
     // Add event listeners
@@ -655,7 +761,6 @@ function BlackHole() {
     return () => {
       // Clean up
       cancelAnimationFrame(animationFrameId);
-      clearTimeout(zoomTimeout);
       canvas.removeEventListener("mousedown", onMouseDown);
       window.removeEventListener("mouseup", onMouseUp);
       window.removeEventListener("mousemove", onMouseMove);
@@ -664,68 +769,56 @@ function BlackHole() {
       window.removeEventListener("touchmove", onTouchMove);
       window.removeEventListener("touchend", onTouchEnd);
     };
-  }, [camera]);
+  }, [
+    camera,
+    orbit,
+    geodesic,
+    heading,
+    pathSample,
+    onOrbitChange,
+    distance,
+    minDistance,
+    maxDistance,
+    phi,
+    theta,
+  ]);
 
   return (
     <group>
-      <mesh ref={meshRef}>
-        <sphereGeometry args={[100, 80, 80]} />
+      {/* Drawn first, filling the screen; it writes the depth of what each
+          ray meets so anything rasterised after it is hidden correctly */}
+      <mesh
+        ref={rays}
+        material={material}
+        frustumCulled={false}
+        renderOrder={-1}
+      >
+        <planeGeometry args={[2, 2]} />
       </mesh>
-
-      {/* Add comet orbiting around black hole */}
-
-      <Planet
-        position={[30, 0, 0]}
-        size={2.5}
-        color="#5D9DFF"
-        rotationSpeed={0.005}
-      />
-      <Planet
-        position={[0, 0, 40]}
-        size={3}
-        color="#80FFD5"
-        rotationSpeed={0.003}
-      />
-      <Planet
-        position={[-35, 5, -15]}
-        size={2}
-        color="#FFE066"
-        rotationSpeed={0.007}
-      />
-
-      {/* Add stronger light sources for planets */}
-      <pointLight
-        position={[0, 0, 0]}
-        intensity={1.5}
-        distance={100}
-        decay={1.5}
-      />
     </group>
   );
 }
 
-function DistantSun() {
+// The sun itself is traced in the shader; this adds the lens flare, a
+// camera effect drawn over the image
+function DistantSun({ sun }: DistantSunProps) {
   const { camera } = useThree();
-  const sunRef = useRef<THREE.Mesh>(null);
   const flareRef = useRef<THREE.Sprite>(null);
 
-  // Position the sun at a more reasonable distance but still far enough for directional effect
-  const sunPosition: [number, number, number] = [150, 60, -200];
-
   useFrame(() => {
-    if (sunRef.current && flareRef.current) {
+    if (flareRef.current) {
       // Update lens flare position to always face camera
-      const sunScreenPosition = new THREE.Vector3(...sunPosition);
-      sunScreenPosition.project(camera);
+      const sunPosition = new THREE.Vector3(...sun.position);
+      const sunScreenPosition = sunPosition.clone().project(camera);
 
       // Only show flare when sun is in front of camera
-      if (sunScreenPosition.z < 1) {
+      if (sun.flare && sunScreenPosition.z < 1) {
         flareRef.current.position.copy(camera.position);
-        flareRef.current.lookAt(sunRef.current.position);
+        flareRef.current.lookAt(sunPosition);
         flareRef.current.visible = true;
 
         // Scale flare with distance
-        const dist = camera.position.distanceTo(sunRef.current.position);
+        const dist = camera.position.distanceTo(sunPosition);
         const scale = Math.min(20, Math.max(10, dist * 0.05));
         flareRef.current.scale.set(scale, scale, 1);
       } else {
@@ -736,23 +829,6 @@ function DistantSun() {
 
   return (
     <group>
-      {/* Large glowing sun sphere */}
-      <mesh ref={sunRef} position={sunPosition}>
-        <sphereGeometry args={[30, 32, 32]} />
-        <meshBasicMaterial color="#FFF5E0" />
-
-        {/* Add a point light at the sun's center for omnidirectional glow */}
-        <pointLight color="#FFF5E0" intensity={15} distance={500} decay={1.5} />
-      </mesh>
-
-      {/* Stronger directional light to simulate sun rays */}
-      <directionalLight
-        position={sunPosition}
-        intensity={1.0}
-        color="#FFF5E0"
-        castShadow
-      />
-
       {/* Enhanced lens flare effect */}
       <sprite ref={flareRef} position={[0, 0, 0]}>
         <spriteMaterial
@@ -765,31 +841,386 @@ function DistantSun() {
           depthWrite={false}
         />
       </sprite>
-
-      {/* Add glow halo around sun */}
-      <mesh position={sunPosition}>
-        <sphereGeometry args={[40, 32, 32]} />
-        <meshBasicMaterial
-          color="#FFF5E0"
-          transparent={true}
-          opacity={0.2}
-          side={THREE.BackSide}
-        />
-      </mesh>
     </group>
   );
 }
 
-export default function InterstellarBlackHole() {
+export type InterstellarBlackHoleProps = {
+  // Any subset of the scene model; omitted fields keep their defaults
+  config?: SceneConfigInput;
+  // Show the live parameter panel
+  showControls?: boolean;
+  // Mirror the view into the URL hash, restore it on load and offer a
+  // "copy link" button. Overrides `config` when the hash carries a scene.
+  syncUrl?: boolean;
+};
+
+export default function InterstellarBlackHole({
+  config,
+  showControls = true,
+  syncUrl = false,
+}: InterstellarBlackHoleProps) {
+  const result = useMemo(() => validateSceneConfig(config), [config]);
+  const initialConfig = result.success ? result.config : defaultSceneConfig;
+
+  // Live edits from the control panel, reset whenever the config prop
+  // changes. Compared by value, since an inline `config={{…}}` is a new
+  // object on every render of the parent.
+  const [sceneConfig, setSceneConfig] = useState(initialConfig);
+  const appliedConfig = useRef(JSON.stringify(initialConfig));
+  useEffect(() => {
+    const key = JSON.stringify(initialConfig);
+    if (key === appliedConfig.current) return;
+    appliedConfig.current = key;
+    setSceneConfig(initialConfig);
+  }, [initialConfig]);
+
+  const warnings = useMemo(
+    () =>
+      orbitWarnings({
+        bodies: sceneConfig.bodies,
+        blackHole: sceneConfig.blackHole,
+      }),
+    [sceneConfig.bodies, sceneConfig.blackHole]
+  );
+
+  const clock = useRef<SimulationClock>({ time: 0, paused: false });
+  const orbit = useRef<CameraPose>(initialConfig.camera);
+
+  const { scheduleUpdate, copyLink } = useUrlViewState({
+    enabled: syncUrl,
+    read: () => ({
+      camera: orbit.current,
+      time: clock.current.time,
+      config: sceneConfig,
+    }),
+    restore: ({ config, time }) => {
+      if (config) setSceneConfig(config);
+      if (time !== undefined) clock.current.time = time;
+    },
+  });
+  useEffect(() => scheduleUpdate(), [sceneConfig, scheduleUpdate]);
+
+  const [cameraPath, setCameraPath] = useState<CameraPath>(emptyCameraPath);
+  const [showPathEditor, setShowPathEditor] = useState(false);
+  const pathSample = useRef<CameraSample | null>(null);
+
+  const previewPath = useCallback((sample: CameraSample | null) => {
+    pathSample.current = sample;
+    clock.current.paused = sample !== null;
+    if (sample) clock.current.time = sample.sceneTime;
+  }, []);
+
+  const captureView = (): CameraSample => {
+    const camera = three.current?.camera as THREE.PerspectiveCamera | undefined;
+    return {
+      position: camera
+        ? camera.position.toArray()
+        : [0, 0, orbit.current.distance],
+      // The orbit controls always look at the hole
+      target: pathSample.current?.target ?? [0, 0, 0],
+      fov: camera?.fov ?? sceneConfig.camera.fov,
+      sceneTime: clock.current.time,
+      parameters: capturePathParameters(sceneConfig),
+    };
+  };
+
+  // A dropped or loaded background image; not part of the shareable config
+  const [skyTexture, setSkyTexture] = useState<SkyTexture | null>(null);
+  useEffect(() => () => skyTexture?.texture.dispose(), [skyTexture]);
+
+  const loadSky = async (files: File[]) => {
+    try {
+      setSkyTexture(await loadSkyTexture(files));
+    } catch (error) {
+      toast({
+        variant: "destructive",
+        title: "Could not load sky",
+        description: error instanceof Error ? error.message : String(error),
+      });
+    }
+  };
+
+  const three = useRef<RootState | null>(null);
+  const offline = useRef<OfflineRender>({ supersample: 0 });
+
+  // Read by the time-dilation readout
+  const simulationTime = useCallback(() => clock.current.time, []);
+  const cameraPosition = useCallback((): Vec3 | null => {
+    const camera = three.current?.camera;
+    return camera ? camera.position.toArray() : null;
+  }, []);
+  const [exportProgress, setExportProgress] = useState<ExportProgress | null>(
+    null
+  );
+
+  // Run an offline render with the live loop paused, so it neither draws over
+  // the output nor advances the simulation clock
+  const runExport = async (task: (state: RootState) => Promise<void>) => {
+    const state = three.current;
+    if (!state) return;
+
+    state.setFrameloop("never");
+    clock.current.paused = true;
+
+    try {
+      await task(state);
+    } catch (error) {
+      toast({
+        variant: "destructive",
+        title: "Export failed",
+        description: error instanceof Error ? error.message : String(error),
+      });
+    } finally {
+      offline.current.supersample = 0;
+      clock.current.paused = pathSample.current !== null;
+      setExportProgress(null);
+      state.setFrameloop("always");
+    }
+  };
+
+  const exportImage = ({ width, height, supersample }: ImageExportOptions) =>
+    runExport(async (state) => {
+      const label = "Rendering tile";
+      setExportProgress({ label, done: 0, total: 1 });
+      offline.current.supersample = supersample;
+
+      const image = await renderTiled(
+        state.gl,
+        state.scene,
+        state.camera as THREE.PerspectiveCamera,
+        {
+          width,
+          height,
+          onProgress: (done, total) =>
+            setExportProgress({ label, done, total }),
+        }
+      );
+      await downloadCanvas(image, `gargantua-${width}x${height}.png`);
+      toast({
+        title: "Image exported",
+        description: `${width}×${height} at ${supersample}×${supersample} samples per pixel`,
+      });
+    });
+
+  const exportVideo = ({
+    width,
+    height,
+    fps,
+    duration,
+    supersample,
+    format,
+    orbitSpeed,
+    followPath,
+  }: VideoExportOptions) =>
+    runExport(async (state) => {
+      const label = "Rendering frame";
+      const path =
+        followPath && cameraPath.keyframes.length > 0 ? cameraPath : null;
+      const length = path ? pathDuration(path) : duration;
+      const frameCount = Math.max(1, Math.round(length * fps));
+      const startTime = clock.current.time;
+      const startPose = { ...orbit.current };
+      const startSample = pathSample.current;
+      const view = (state.camera as THREE.PerspectiveCamera).clone();
+      setExportProgress({ label, done: 0, total: frameCount });
+
+      try {
+        const video = await encodeFrames(format, {
+          frameCount,
+          fps,
+          width,
+          height,
+          renderFrame: async (frame) => {
+            const time = frame / fps;
+
+            if (path) {
+              const sample = evaluatePath(path, time);
+              pathSample.current = sample;
+              clock.current.time = sample.sceneTime;
+              view.position.set(...sample.position);
+              view.lookAt(...sample.target);
+              view.fov = sample.fov;
+            } else {
+              clock.current.time = startTime + time;
+              placeCamera(view, {
+                ...startPose,
+                theta: startPose.theta + orbitSpeed * time,
+              });
+            }
+
+            // Step planets and uniforms to the new time. This also draws one
+            // live-quality frame to the canvas, which is cheap and discarded.
+            offline.current.supersample = 0;
+            state.advance(clock.current.time);
+            offline.current.supersample = supersample;
+
+            const image = await renderTiled(state.gl, state.scene, view, {
+              width,
+              height,
+            });
+            setExportProgress({ label, done: frame + 1, total: frameCount });
+            return image;
+          },
+        });
+
+        const extension = format === "webm" ? "webm" : "zip";
+        downloadBlob(
+          video,
+          `gargantua-${width}x${height}-${fps}fps.${extension}`
+        );
+        toast({
+          title: "Recording exported",
+          description: `${frameCount} frames at ${width}×${height}, ${fps} fps`,
+        });
+      } finally {
+        // Resume the live view where the recording started
+        clock.current.time = startTime;
+        pathSample.current = startSample;
+      }
+    });
+
   return (
-    <div className="w-full h-screen bg-black">
-      <Canvas gl={{ antialias: true, powerPreference: "high-performance" }}>
+    <div
+      className="w-full h-screen bg-black"
+      onDragOver={(event) => {
+        if (showControls && event.dataTransfer.types.includes("Files")) {
+          event.preventDefault();
+        }
+      }}
+      onDrop={(event) => {
+        if (!showControls) return;
+        event.preventDefault();
+        loadSky(Array.from(event.dataTransfer.files));
+      }}
+    >
+      <Canvas
+        camera={{ fov: sceneConfig.camera.fov }}
+        gl={{ antialias: true, powerPreference: "high-performance" }}
+        onCreated={(state) => (three.current = state)}
+      >
+        <SimulationClockDriver clock={clock.current} />
         <color attach="background" args={["#000000"]} />
-        <ambientLight intensity={0.5} /> {/* Increased ambient light */}
-        <BlackHole />
-        <DistantSun />
+        <BlackHole
+          config={sceneConfig}
+          clock={clock.current}
+          offline={offline.current}
+          orbit={orbit}
+          pathSample={pathSample}
+          onOrbitChange={scheduleUpdate}
+          skyTexture={skyTexture}
+        />
+        {sceneConfig.lights.sun.enabled && (
+          <DistantSun sun={sceneConfig.lights.sun} />
+        )}
       </Canvas>
 
+      {!result.success && (
+        <Alert
+          variant="destructive"
+          className="absolute top-5 left-1/2 w-auto max-w-lg -translate-x-1/2 bg-black/80"
+        >
+          <AlertTitle>Invalid scene config</AlertTitle>
+          <AlertDescription>
+            <ul className="list-disc pl-4">
+              {result.errors.map((error) => (
+                <li key={error}>{error}</li>
+              ))}
+            </ul>
+          </AlertDescription>
+        </Alert>
+      )}
+
+      {result.success && warnings.length > 0 && (
+        <Alert className="absolute top-5 left-1/2 w-auto max-w-lg -translate-x-1/2 border-amber-500/50 bg-black/80 text-amber-200">
+          <AlertTitle>Unstable orbits</AlertTitle>
+          <AlertDescription>
+            <ul className="list-disc pl-4">
+              {warnings.map((warning) => (
+                <li key={warning}>{warning}</li>
+              ))}
+            </ul>
+          </AlertDescription>
+        </Alert>
+      )}
+
+      <div className="absolute top-5 right-5 flex gap-2">
+        {showControls && (
+          <Button
+            variant="outline"
+            size="icon"
+            className={cn(
+              OVERLAY_BUTTON_CLASS,
+              showPathEditor && "bg-white/20"
+            )}
+            onClick={() => setShowPathEditor((shown) => !shown)}
+          >
+            <Route className="h-4 w-4" />
+            <span className="sr-only">Toggle camera path editor</span>
+          </Button>
+        )}
+
+        {syncUrl && (
+          <Button
+            variant="outline"
+            size="icon"
+            className={OVERLAY_BUTTON_CLASS}
+            onClick={copyLink}
+          >
+            <Link className="h-4 w-4" />
+            <span className="sr-only">Copy link to this view</span>
+          </Button>
+        )}
+
+        {showControls && (
+          <ControlPanel
+            config={sceneConfig}
+            onChange={setSceneConfig}
+            onExportImage={exportImage}
+            onExportVideo={exportVideo}
+            cameraPathDuration={pathDuration(cameraPath)}
+            skyName={skyTexture?.name ?? null}
+            onLoadSky={loadSky}
+            onClearSky={() => setSkyTexture(null)}
+          />
+        )}
+      </div>
+
+      {showControls && showPathEditor && (
+        <CameraPathEditor
+          path={cameraPath}
+          onChange={setCameraPath}
+          capture={captureView}
+          onPreview={previewPath}
+        />
+      )}
+
+      {sceneConfig.render.showTimeDilation ? (
+        <TimeDilationHud
+          config={sceneConfig}
+          time={simulationTime}
+          cameraPosition={cameraPosition}
+        />
+      ) : (
+        sceneConfig.camera.mode === "endurance" && (
+          <EnduranceHud config={sceneConfig} />
+        )
+      )}
+
+      {exportProgress && (
+        <div className="absolute inset-0 flex items-center justify-center bg-black/80">
+          <div className="w-72 space-y-3 text-center text-sm text-white">
+            <p>
+              {exportProgress.label} {exportProgress.done} of{" "}
+              {exportProgress.total}
+            </p>
+            <Progress
+              value={(100 * exportProgress.done) / exportProgress.total}
+            />
+          </div>
+        </div>
+      )}
+
       {/* Optional instructions */}
       <div className="absolute bottom-5 left-1/2 transform -translate-x-1/2 text-white text-opacity-70 text-sm">
         Github | revell29
@@ -0,0 +1,288 @@
+"use client";
+
+import { useEffect, useRef, useState } from "react";
+import { Download, Pause, Play, Plus, Trash2, Upload } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Label } from "@/components/ui/label";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { Slider } from "@/components/ui/slider";
+import { Switch } from "@/components/ui/switch";
+import { toast } from "@/hooks/use-toast";
+import {
+  evaluatePath,
+  pathDuration,
+  serializeCameraPath,
+  upsertKeyframe,
+  validateCameraPath,
+  type CameraPath,
+  type CameraSample,
+  type Easing,
+  type Interpolation,
+} from "@/lib/camera-path";
+import { downloadBlob } from "@/lib/image-export";
+import { cn } from "@/lib/utils";
+
+type CameraPathEditorProps = {
+  path: CameraPath;
+  onChange: (path: CameraPath) => void;
+  // The view to store in a new keyframe
+  capture: () => CameraSample;
+  // Drive the scene from the path, or hand it back to the orbit controls
+  onPreview: (sample: CameraSample | null) => void;
+};
+
+// Room past the last keyframe, so new ones can be placed after it
+const TIMELINE_HEADROOM = 2;
+
+const EASING_LABELS: Record<Easing, string> = {
+  linear: "Linear",
+  "ease-in": "Ease in",
+  "ease-out": "Ease out",
+  "ease-in-out": "Ease in-out",
+};
+
+// Timeline for authoring camera moves. Keyframes capture the live view; with
+// preview on, the playhead drives the camera, clock and animated parameters.
+export function CameraPathEditor({
+  path,
+  onChange,
+  capture,
+  onPreview,
+}: CameraPathEditorProps) {
+  const [playhead, setPlayhead] = useState(0);
+  const [playing, setPlaying] = useState(false);
+  const [preview, setPreview] = useState(false);
+  const [selected, setSelected] = useState<number | null>(null);
+  const fileInput = useRef<HTMLInputElement>(null);
+
+  const duration = pathDuration(path);
+  const timelineEnd = duration + TIMELINE_HEADROOM;
+  const selectedKey = selected !== null ? path.keyframes[selected] : undefined;
+  const active = (preview || playing) && path.keyframes.length > 0;
+
+  useEffect(() => {
+    onPreview(active ? evaluatePath(path, playhead) : null);
+  }, [active, path, playhead, onPreview]);
+
+  // Release the camera when the editor closes
+  useEffect(() => () => onPreview(null), [onPreview]);
+
+  useEffect(() => {
+    if (!playing) return;
+
+    let frame: number;
+    let previous = performance.now();
+    const tick = (now: number) => {
+      const delta = (now - previous) / 1000;
+      previous = now;
+      setPlayhead((time) => Math.min(time + delta, duration));
+      frame = requestAnimationFrame(tick);
+    };
+
+    frame = requestAnimationFrame(tick);
+    return () => cancelAnimationFrame(frame);
+  }, [playing, duration]);
+
+  useEffect(() => {
+    if (playing && playhead >= duration) setPlaying(false);
+  }, [playing, playhead, duration]);
+
+  const play = () => {
+    if (playhead >= duration) setPlayhead(0);
+    setPlaying(true);
+  };
+
+  const addKeyframe = () => {
+    const previous = path.keyframes.filter((key) => key.time < playhead);
+    const next = upsertKeyframe(path, {
+      ...capture(),
+      time: playhead,
+      // Keep the easing the segment into this time already had
+      easing: previous[previous.length - 1]?.easing ?? "linear",
+    });
+    onChange(next);
+    setSelected(next.keyframes.findIndex((key) => key.time === playhead));
+  };
+
+  const removeKeyframe = () => {
+    if (selected === null) return;
+    onChange({
+      ...path,
+      keyframes: path.keyframes.filter((_, index) => index !== selected),
+    });
+    setSelected(null);
+  };
+
+  const setEasing = (easing: Easing) => {
+    if (selected === null) return;
+    onChange({
+      ...path,
+      keyframes: path.keyframes.map((key, index) =>
+        index === selected ? { ...key, easing } : key
+      ),
+    });
+  };
+
+  const save = () =>
+    downloadBlob(
+      new Blob([serializeCameraPath(path)], { type: "application/json" }),
+      "camera-path.json"
+    );
+
+  const load = async (file: File) => {
+    const result = validateCameraPath(await file.text());
+    if (!result.success) {
+      toast({
+        variant: "destructive",
+        title: `Could not load ${file.name}`,
+        description: result.errors.join("\n"),
+      });
+      return;
+    }
+
+    onChange(result.path);
+    setSelected(null);
+    setPlayhead(0);
+  };
+
+  return (
+    <div className="dark absolute bottom-12 left-1/2 w-[min(90vw,48rem)] -translate-x-1/2 space-y-4 rounded-lg border border-white/20 bg-black/70 p-4 text-sm text-white">
+      <div className="relative pt-4">
+        {path.keyframes.map((key, index) => (
+          <button
+            key={key.time}
+            type="button"
+            title={`Keyframe at ${key.time.toFixed(2)}s`}
+            className={cn(
+              "absolute top-0 h-3 w-3 -translate-x-1/2 rotate-45 border",
+              index === selected
+                ? "border-white bg-white"
+                : "border-white/60 bg-black"
+            )}
+            style={{ left: `${(100 * key.time) / timelineEnd}%` }}
+            onClick={() => {
+              setSelected(index);
+              setPlayhead(key.time);
+            }}
+          />
+        ))}
+        <Slider
+          value={[playhead]}
+          min={0}
+          max={timelineEnd}
+          step={0.01}
+          onValueChange={([time]) => {
+            setPlaying(false);
+            setPlayhead(time);
+          }}
+        />
+      </div>
+
+      <div className="flex flex-wrap items-center gap-2">
+        <Button
+          size="icon"
+          variant="outline"
+          disabled={path.keyframes.length < 2}
+          onClick={playing ? () => setPlaying(false) : play}
+        >
+          {playing ? (
+            <Pause className="h-4 w-4" />
+          ) : (
+            <Play className="h-4 w-4" />
+          )}
+          <span className="sr-only">{playing ? "Pause" : "Play"}</span>
+        </Button>
+        <span className="w-28 tabular-nums text-muted-foreground">
+          {playhead.toFixed(2)}s / {duration.toFixed(2)}s
+        </span>
+
+        <Button variant="outline" onClick={addKeyframe}>
+          <Plus className="mr-2 h-4 w-4" />
+          Keyframe
+        </Button>
+        <Button
+          size="icon"
+          variant="outline"
+          disabled={selected === null}
+          onClick={removeKeyframe}
+        >
+          <Trash2 className="h-4 w-4" />
+          <span className="sr-only">Delete keyframe</span>
+        </Button>
+        <Select
+          value={selectedKey?.easing ?? ""}
+          disabled={!selectedKey}
+          onValueChange={(value) => setEasing(value as Easing)}
+        >
+          <SelectTrigger className="w-32">
+            <SelectValue placeholder="Easing" />
+          </SelectTrigger>
+          <SelectContent className="dark">
+            {Object.entries(EASING_LABELS).map(([value, label]) => (
+              <SelectItem key={value} value={value}>
+                {label}
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+        <Select
+          value={path.interpolation}
+          onValueChange={(value) =>
+            onChange({ ...path, interpolation: value as Interpolation })
+          }
+        >
+          <SelectTrigger className="w-36">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent className="dark">
+            <SelectItem value="catmull-rom">Catmull-Rom</SelectItem>
+            <SelectItem value="bezier">Bézier</SelectItem>
+          </SelectContent>
+        </Select>
+
+        <div className="ml-auto flex items-center gap-2">
+          <Label htmlFor="camera-path-preview">Preview</Label>
+          <Switch
+            id="camera-path-preview"
+            checked={preview}
+            onCheckedChange={setPreview}
+          />
+          <Button
+            size="icon"
+            variant="outline"
+            disabled={path.keyframes.length === 0}
+            onClick={save}
+          >
+            <Download className="h-4 w-4" />
+            <span className="sr-only">Save path as JSON</span>
+          </Button>
+          <Button
+            size="icon"
+            variant="outline"
+            onClick={() => fileInput.current?.click()}
+          >
+            <Upload className="h-4 w-4" />
+            <span className="sr-only">Load path from JSON</span>
+          </Button>
+          <input
+            ref={fileInput}
+            type="file"
+            accept="application/json,.json"
+            className="hidden"
+            onChange={(event) => {
+              const file = event.target.files?.[0];
+              if (file) load(file);
+              event.target.value = "";
+            }}
+          />
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,867 @@
+"use client";
+
+import { useRef, useState } from "react";
+import { Clapperboard, ImageDown, SlidersHorizontal } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Label } from "@/components/ui/label";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { Separator } from "@/components/ui/separator";
+import {
+  Sheet,
+  SheetContent,
+  SheetDescription,
+  SheetHeader,
+  SheetTitle,
+  SheetTrigger,
+} from "@/components/ui/sheet";
+import { Slider } from "@/components/ui/slider";
+import { Switch } from "@/components/ui/switch";
+import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
+import {
+  EXPORT_RESOLUTIONS,
+  type ExportResolution,
+  type ImageExportOptions,
+} from "@/lib/image-export";
+import { MAX_CAMERA_SPEED } from "@/lib/camera-motion";
+import { clampSpin, horizonRadius, iscoRadius } from "@/lib/physics/kerr";
+import { dot, type Vec3 } from "@/lib/physics/vec3";
+import {
+  millerScenario,
+  QUALITY_PRESETS,
+  RENDER_PRESETS,
+  type CameraMotion,
+  type DiskPalette,
+  type QualityPreset,
+  type RenderPreset,
+  type RingOverlay,
+  type SceneConfig,
+} from "@/lib/scene-config";
+import { cn } from "@/lib/utils";
+import type { VideoExportOptions, VideoFormat } from "@/lib/video-export";
+
+type ControlPanelProps = {
+  config: SceneConfig;
+  onChange: (config: SceneConfig) => void;
+  // Add an Export tab when either is provided
+  onExportImage?: (options: ImageExportOptions) => Promise<void>;
+  onExportVideo?: (options: VideoExportOptions) => Promise<void>;
+  // Length of the authored camera path; recordings can follow it when > 0
+  cameraPathDuration?: number;
+  // Loaded background image, or null while the stars show
+  skyName?: string | null;
+  onLoadSky?: (files: File[]) => void;
+  onClearSky?: () => void;
+};
+
+type ImageExportFieldsProps = {
+  onExport: (options: ImageExportOptions) => Promise<void>;
+};
+
+type VideoExportFieldsProps = {
+  onExport: (options: VideoExportOptions) => Promise<void>;
+  pathDuration: number;
+};
+
+type ResolutionFieldProps = {
+  value: ExportResolution;
+  onChange: (value: ExportResolution) => void;
+};
+
+type SliderFieldProps = {
+  label: string;
+  value: number;
+  min: number;
+  max: number;
+  step: number;
+  format?: (value: number) => string;
+  disabled?: boolean;
+  onChange: (value: number) => void;
+};
+
+type SwitchFieldProps = {
+  label: string;
+  checked: boolean;
+  onChange: (checked: boolean) => void;
+};
+
+const RENDER_PRESET_LABELS: Record<RenderPreset, string> = {
+  interstellar: "Interstellar (DNGR-style)",
+  physical: "Physically accurate",
+  artistic: "Artistic",
+};
+
+// The traced rings are always there; the overlay paints the old fixed
+// rings over them, everywhere or on the left half only
+const RING_OVERLAY_LABELS: Record<RingOverlay, string> = {
+  physical: "Off",
+  artistic: "Painted",
+  split: "Painted on left half",
+};
+
+type Section = Exclude<keyof SceneConfig, "bodies">;
+
+function SliderField({
+  label,
+  value,
+  min,
+  max,
+  step,
+  format = (value) => value.toFixed(2),
+  disabled = false,
+  onChange,
+}: SliderFieldProps) {
+  return (
+    <div className="space-y-2">
+      <div className="flex items-center justify-between text-sm">
+        <Label>{label}</Label>
+        <span className="tabular-nums text-muted-foreground">
+          {format(value)}
+        </span>
+      </div>
+      <Slider
+        value={[value]}
+        min={min}
+        max={max}
+        step={step}
+        disabled={disabled}
+        onValueChange={([next]) => onChange(next)}
+      />
+    </div>
+  );
+}
+
+function SwitchField({ label, checked, onChange }: SwitchFieldProps) {
+  return (
+    <div className="flex items-center justify-between text-sm">
+      <Label>{label}</Label>
+      <Switch checked={checked} onCheckedChange={onChange} />
+    </div>
+  );
+}
+
+function ResolutionField({ value, onChange }: ResolutionFieldProps) {
+  return (
+    <div className="flex items-center justify-between text-sm">
+      <Label>Resolution</Label>
+      <Select
+        value={value}
+        onValueChange={(next) => onChange(next as ExportResolution)}
+      >
+        <SelectTrigger className="w-40">
+          <SelectValue />
+        </SelectTrigger>
+        <SelectContent className="dark">
+          {Object.entries(EXPORT_RESOLUTIONS).map(
+            ([name, { width, height }]) => (
+              <SelectItem key={name} value={name}>
+                {name} ({width}×{height})
+              </SelectItem>
+            )
+          )}
+        </SelectContent>
+      </Select>
+    </div>
+  );
+}
+
+function ImageExportFields({ onExport }: ImageExportFieldsProps) {
+  const [resolution, setResolution] = useState<ExportResolution>("4K");
+  const [supersample, setSupersample] = useState(2);
+  const [busy, setBusy] = useState(false);
+
+  const exportImage = async () => {
+    setBusy(true);
+    try {
+      await onExport({ ...EXPORT_RESOLUTIONS[resolution], supersample });
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  return (
+    <div className="space-y-6">
+      <ResolutionField value={resolution} onChange={setResolution} />
+      <SliderField
+        label="Supersampling"
+        value={supersample}
+        min={1}
+        max={4}
+        step={1}
+        format={(value) => `${value}×${value}`}
+        onChange={setSupersample}
+      />
+      <p className="text-sm text-muted-foreground">
+        Every ray is traced to the full step budget, so large exports can take a
+        while.
+      </p>
+      <Button className="w-full" disabled={busy} onClick={exportImage}>
+        <ImageDown className="mr-2 h-4 w-4" />
+        {busy ? "Exporting…" : "Export PNG"}
+      </Button>
+    </div>
+  );
+}
+
+function VideoExportFields({ onExport, pathDuration }: VideoExportFieldsProps) {
+  const [resolution, setResolution] = useState<ExportResolution>("1080p");
+  const [fps, setFps] = useState(30);
+  const [duration, setDuration] = useState(10);
+  const [supersample, setSupersample] = useState(1);
+  const [orbitSpeed, setOrbitSpeed] = useState(3);
+  const [format, setFormat] = useState<VideoFormat>("webm");
+  const [followPath, setFollowPath] = useState(false);
+  const [busy, setBusy] = useState(false);
+  const usePath = followPath && pathDuration > 0;
+
+  const record = async () => {
+    setBusy(true);
+    try {
+      await onExport({
+        ...EXPORT_RESOLUTIONS[resolution],
+        fps,
+        duration,
+        supersample,
+        format,
+        orbitSpeed: (orbitSpeed * Math.PI) / 180,
+        followPath: usePath,
+      });
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  return (
+    <div className="space-y-6">
+      <ResolutionField value={resolution} onChange={setResolution} />
+      <div className="flex items-center justify-between text-sm">
+        <Label>Frame rate</Label>
+        <Select
+          value={String(fps)}
+          onValueChange={(value) => setFps(Number(value))}
+        >
+          <SelectTrigger className="w-40">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent className="dark">
+            {[24, 30, 60].map((rate) => (
+              <SelectItem key={rate} value={String(rate)}>
+                {rate} fps
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+      </div>
+      {pathDuration > 0 && (
+        <SwitchField
+          label="Follow camera path"
+          checked={followPath}
+          onChange={setFollowPath}
+        />
+      )}
+      <SliderField
+        label="Duration (s)"
+        value={usePath ? pathDuration : duration}
+        min={1}
+        max={60}
+        step={1}
+        format={(value) => value.toFixed(usePath ? 2 : 0)}
+        disabled={usePath}
+        onChange={setDuration}
+      />
+      <SliderField
+        label="Camera orbit (°/s)"
+        value={orbitSpeed}
+        min={-20}
+        max={20}
+        step={0.5}
+        format={(value) => value.toFixed(1)}
+        disabled={usePath}
+        onChange={setOrbitSpeed}
+      />
+      <SliderField
+        label="Supersampling"
+        value={supersample}
+        min={1}
+        max={4}
+        step={1}
+        format={(value) => `${value}×${value}`}
+        onChange={setSupersample}
+      />
+      <div className="flex items-center justify-between text-sm">
+        <Label>Format</Label>
+        <Select
+          value={format}
+          onValueChange={(value) => setFormat(value as VideoFormat)}
+        >
+          <SelectTrigger className="w-40">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent className="dark">
+            <SelectItem value="webm">WebM video</SelectItem>
+            <SelectItem value="png-sequence">PNG sequence (.zip)</SelectItem>
+          </SelectContent>
+        </Select>
+      </div>
+      <p className="text-sm text-muted-foreground">
+        Frames are rendered at a fixed timestep, so the clip plays smoothly
+        however long each frame takes.
+      </p>
+      <Button className="w-full" disabled={busy} onClick={record}>
+        <Clapperboard className="mr-2 h-4 w-4" />
+        {busy ? "Recording…" : "Record"}
+      </Button>
+    </div>
+  );
+}
+
+// Smallest inner disk radius in Rs, the horizon rounded up to the slider's
+// 0.05 steps
+const minInnerRadius = ({ mass, spin }: SceneConfig["blackHole"]) =>
+  Math.ceil((horizonRadius(mass, spin) / (2 * mass)) * 20) / 20;
+
+function qualityPresetOf(render: SceneConfig["render"]) {
+  const match = Object.entries(QUALITY_PRESETS).find(
+    ([, preset]) =>
+      preset.maxSteps === render.maxSteps &&
+      preset.antialias === render.antialias
+  );
+  return match ? match[0] : "custom";
+}
+
+function renderPresetOf({ disk, render }: SceneConfig) {
+  const match = Object.entries(RENDER_PRESETS).find(
+    ([, preset]) =>
+      preset.disk.palette === disk.palette &&
+      preset.disk.dopplerStrength === disk.dopplerStrength &&
+      preset.disk.beaming === disk.beaming &&
+      preset.disk.colorShift === disk.colorShift &&
+      preset.render.ringOverlay === render.ringOverlay
+  );
+  return match ? match[0] : "custom";
+}
+
+// Collapsible side panel editing the scene live. Every field here maps onto a
+// shader uniform, so changes apply on the next frame without a recompile.
+export function ControlPanel({
+  config,
+  onChange,
+  onExportImage,
+  onExportVideo,
+  cameraPathDuration = 0,
+  skyName = null,
+  onLoadSky,
+  onClearSky,
+}: ControlPanelProps) {
+  const { blackHole, disk, sky, render } = config;
+  const schwarzschildRadius = 2 * blackHole.mass;
+  const innerRadius =
+    disk.innerRadius === "isco"
+      ? iscoRadius(blackHole.mass, blackHole.spin, !disk.retrograde) /
+        schwarzschildRadius
+      : disk.innerRadius;
+
+  const canExport = Boolean(onExportImage || onExportVideo);
+  const skyInput = useRef<HTMLInputElement>(null);
+
+  const update = <K extends Section>(
+    section: K,
+    values: Partial<SceneConfig[K]>
+  ) => onChange({ ...config, [section]: { ...config[section], ...values } });
+
+  // A fixed inner edge is kept outside the horizon as the hole changes
+  const setBlackHole = (values: Partial<SceneConfig["blackHole"]>) => {
+    const next = { ...blackHole, ...values };
+    const inner = minInnerRadius(next);
+    onChange({
+      ...config,
+      blackHole: next,
+      disk:
+        disk.innerRadius === "isco" || disk.innerRadius >= inner
+          ? disk
+          : { ...disk, innerRadius: inner },
+    });
+  };
+
+  const setEndurance = (values: Partial<SceneConfig["camera"]["endurance"]>) =>
+    update("camera", {
+      endurance: { ...config.camera.endurance, ...values },
+    });
+
+  // Each component is held to what keeps the camera below MAX_CAMERA_SPEED
+  const setVelocity = (index: number, value: number) => {
+    const velocity = [...config.camera.velocity] as Vec3;
+    velocity[index] = 0;
+    const limit = Math.sqrt(
+      Math.max(MAX_CAMERA_SPEED ** 2 - dot(velocity, velocity), 0)
+    );
+    velocity[index] = Math.min(limit, Math.max(-limit, value));
+    update("camera", { velocity });
+  };
+
+  return (
+    <Sheet modal={false}>
+      <SheetTrigger asChild>
+        <Button
+          variant="outline"
+          size="icon"
+          className="border-white/20 bg-black/60 text-white hover:bg-white/10 hover:text-white"
+        >
+          <SlidersHorizontal className="h-4 w-4" />
+          <span className="sr-only">Open controls</span>
+        </Button>
+      </SheetTrigger>
+
+      {/* Keep the panel open while the user drags the view behind it */}
+      <SheetContent
+        className="dark overflow-y-auto bg-background/90 text-foreground"
+        onInteractOutside={(event) => event.preventDefault()}
+      >
+        <SheetHeader>
+          <SheetTitle>Controls</SheetTitle>
+          <SheetDescription>Changes apply to the live render.</SheetDescription>
+        </SheetHeader>
+
+        <Tabs defaultValue="black-hole" className="mt-6">
+          <TabsList
+            className={cn(
+              "grid w-full",
+              canExport ? "grid-cols-4" : "grid-cols-3"
+            )}
+          >
+            <TabsTrigger value="black-hole">Black hole</TabsTrigger>
+            <TabsTrigger value="disk">Disk</TabsTrigger>
+            <TabsTrigger value="render">Render</TabsTrigger>
+            {canExport && <TabsTrigger value="export">Export</TabsTrigger>}
+          </TabsList>
+
+          <TabsContent value="black-hole" className="space-y-6 pt-4">
+            <SliderField
+              label="Mass (M)"
+              value={blackHole.mass}
+              min={0.5}
+              max={2}
+              step={0.01}
+              onChange={(mass) =>
+                setBlackHole({
+                  mass,
+                  spin: clampSpin(mass, blackHole.spin),
+                })
+              }
+            />
+            <SliderField
+              label="Spin (a)"
+              value={blackHole.spin}
+              min={0}
+              max={clampSpin(blackHole.mass, blackHole.mass)}
+              step={0.001}
+              format={(value) => value.toFixed(3)}
+              onChange={(spin) => setBlackHole({ spin })}
+            />
+            <SwitchField
+              label="Time dilation readout"
+              checked={render.showTimeDilation}
+              onChange={(showTimeDilation) =>
+                update("render", { showTimeDilation })
+              }
+            />
+            <Separator />
+            <div className="space-y-2">
+              <p className="text-sm text-muted-foreground">
+                A planet orbiting just outside the ISCO of a near-extremal hole,
+                where an hour lasts half a day on Earth.
+              </p>
+              <Button
+                variant="outline"
+                className="w-full"
+                onClick={() => onChange(millerScenario(config))}
+              >
+                Miller&apos;s planet
+              </Button>
+            </div>
+            <Separator />
+            <SwitchField
+              label="Dive into the hole"
+              checked={config.camera.mode === "dive"}
+              onChange={(checked) =>
+                update("camera", { mode: checked ? "dive" : "orbit" })
+              }
+            />
+            <SliderField
+              label="Dive swirl"
+              value={config.camera.diveSwirl}
+              min={0}
+              max={0.9}
+              step={0.01}
+              onChange={(diveSwirl) => update("camera", { diveSwirl })}
+            />
+            <p className="text-sm text-muted-foreground">
+              Falls freely from the current view, through the horizon. Swirl
+              sets it spiralling; switch the dive off and on to fall again.
+            </p>
+            <Separator />
+            <SwitchField
+              label="Endurance orbit"
+              checked={config.camera.mode === "endurance"}
+              onChange={(checked) =>
+                update("camera", { mode: checked ? "endurance" : "orbit" })
+              }
+            />
+            <SliderField
+              label="Orbit radius (M)"
+              value={config.camera.endurance.radius}
+              min={2}
+              max={60}
+              step={0.5}
+              onChange={(radius) => setEndurance({ radius })}
+            />
+            <SliderField
+              label="Orbit inclination (°)"
+              value={config.camera.endurance.inclination}
+              min={0}
+              max={89}
+              step={1}
+              onChange={(inclination) => setEndurance({ inclination })}
+            />
+            <SwitchField
+              label="Retrograde orbit"
+              checked={config.camera.endurance.retrograde}
+              onChange={(retrograde) => setEndurance({ retrograde })}
+            />
+            <p className="text-sm text-muted-foreground">
+              Rides a circular orbit, moved out to the innermost stable one if
+              closer. Drag to look around.
+            </p>
+            <Separator />
+            <div className="flex items-center justify-between text-sm">
+              <Label>Camera motion</Label>
+              <Select
+                value={config.camera.motion}
+                onValueChange={(value) =>
+                  update("camera", { motion: value as CameraMotion })
+                }
+              >
+                <SelectTrigger className="w-32">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent className="dark">
+                  <SelectItem value="hovering">Hovering</SelectItem>
+                  <SelectItem value="orbiting">Orbiting</SelectItem>
+                  <SelectItem value="custom">Custom</SelectItem>
+                </SelectContent>
+              </Select>
+            </div>
+            {config.camera.motion === "custom" &&
+              (["Radial", "Polar", "Azimuthal"] as const).map(
+                (direction, index) => (
+                  <SliderField
+                    key={direction}
+                    label={`${direction} speed (c)`}
+                    value={config.camera.velocity[index]}
+                    min={-MAX_CAMERA_SPEED}
+                    max={MAX_CAMERA_SPEED}
+                    step={0.01}
+                    onChange={(value) => setVelocity(index, value)}
+                  />
+                )
+              )}
+            <p className="text-sm text-muted-foreground">
+              Moving past the hole bunches the sky up ahead and shifts it bluer
+              and brighter there. Orbiting goes round with the disk at
+              circular-orbit speed.
+            </p>
+          </TabsContent>
+
+          <TabsContent value="disk" className="space-y-6 pt-4">
+            <SwitchField
+              label="Inner edge at ISCO"
+              checked={disk.innerRadius === "isco"}
+              onChange={(checked) =>
+                update("disk", { innerRadius: checked ? "isco" : innerRadius })
+              }
+            />
+            <SliderField
+              label="Inner radius (Rs)"
+              value={innerRadius}
+              min={minInnerRadius(blackHole)}
+              max={10}
+              step={0.05}
+              disabled={disk.innerRadius === "isco"}
+              onChange={(value) =>
+                update("disk", {
+                  innerRadius: value,
+                  outerRadius: Math.max(disk.outerRadius, value + 1),
+                })
+              }
+            />
+            <SliderField
+              label="Outer radius (Rs)"
+              value={disk.outerRadius}
+              min={Math.ceil(innerRadius + 1)}
+              max={40}
+              step={0.5}
+              format={(value) => value.toFixed(1)}
+              onChange={(outerRadius) => update("disk", { outerRadius })}
+            />
+            <SwitchField
+              label="Retrograde disk"
+              checked={disk.retrograde}
+              onChange={(retrograde) => update("disk", { retrograde })}
+            />
+            <SliderField
+              label="Peak temperature (K)"
+              value={disk.temperature}
+              min={2000}
+              max={20000}
+              step={100}
+              format={(value) => value.toFixed(0)}
+              onChange={(temperature) => update("disk", { temperature })}
+            />
+            <SliderField
+              label="Doppler strength"
+              value={disk.dopplerStrength}
+              min={0}
+              max={1}
+              step={0.01}
+              onChange={(dopplerStrength) =>
+                update("disk", { dopplerStrength })
+              }
+            />
+            <SwitchField
+              label="Doppler beaming"
+              checked={disk.beaming}
+              onChange={(beaming) => update("disk", { beaming })}
+            />
+            <SwitchField
+              label="Colour shift"
+              checked={disk.colorShift}
+              onChange={(colorShift) => update("disk", { colorShift })}
+            />
+            <div className="flex items-center justify-between text-sm">
+              <Label>Palette</Label>
+              <Select
+                value={disk.palette}
+                onValueChange={(value) =>
+                  update("disk", { palette: value as DiskPalette })
+                }
+              >
+                <SelectTrigger className="w-32">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent className="dark">
+                  <SelectItem value="blackbody">Blackbody</SelectItem>
+                  <SelectItem value="artistic">Artistic</SelectItem>
+                </SelectContent>
+              </Select>
+            </div>
+            <SliderField
+              label="Optical depth"
+              value={disk.opticalDepth}
+              min={0}
+              max={3}
+              step={0.05}
+              onChange={(opticalDepth) => update("disk", { opticalDepth })}
+            />
+            <SwitchField
+              label="Volumetric disk"
+              checked={disk.volumetric}
+              onChange={(volumetric) => update("disk", { volumetric })}
+            />
+          </TabsContent>
+
+          <TabsContent value="render" className="space-y-6 pt-4">
+            <div className="flex items-center justify-between text-sm">
+              <Label>Look</Label>
+              <Select
+                value={renderPresetOf(config)}
+                onValueChange={(value) => {
+                  const preset = RENDER_PRESETS[value as RenderPreset];
+                  onChange({
+                    ...config,
+                    disk: { ...disk, ...preset.disk },
+                    render: { ...render, ...preset.render },
+                  });
+                }}
+              >
+                <SelectTrigger className="w-48">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent className="dark">
+                  {Object.entries(RENDER_PRESET_LABELS).map(
+                    ([value, label]) => (
+                      <SelectItem key={value} value={value}>
+                        {label}
+                      </SelectItem>
+                    )
+                  )}
+                  <SelectItem value="custom" disabled>
+                    Custom
+                  </SelectItem>
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="flex items-center justify-between text-sm">
+              <Label>Ring overlay</Label>
+              <Select
+                value={render.ringOverlay}
+                onValueChange={(value) =>
+                  update("render", { ringOverlay: value as RingOverlay })
+                }
+              >
+                <SelectTrigger className="w-48">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent className="dark">
+                  {Object.entries(RING_OVERLAY_LABELS).map(([value, label]) => (
+                    <SelectItem key={value} value={value}>
+                      {label}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <SwitchField
+              label="Colour by image order"
+              checked={render.showImageOrder}
+              onChange={(showImageOrder) =>
+                update("render", { showImageOrder })
+              }
+            />
+            <SliderField
+              label="Star density"
+              value={sky.starDensity}
+              min={0}
+              max={5}
+              step={0.1}
+              format={(value) => value.toFixed(1)}
+              onChange={(starDensity) => update("sky", { starDensity })}
+            />
+            {onLoadSky && (
+              <div className="flex items-center justify-between gap-2 text-sm">
+                <Label>Sky</Label>
+                <span className="min-w-0 flex-1 truncate text-right text-white/70">
+                  {skyName ?? "Star catalogue"}
+                </span>
+                <Button
+                  size="sm"
+                  variant="outline"
+                  onClick={() => skyInput.current?.click()}
+                >
+                  Load
+                </Button>
+                {skyName && (
+                  <Button size="sm" variant="outline" onClick={onClearSky}>
+                    Clear
+                  </Button>
+                )}
+                <input
+                  ref={skyInput}
+                  type="file"
+                  multiple
+                  accept="image/png,image/jpeg,image/webp,.hdr,.exr"
+                  className="hidden"
+                  onChange={(event) => {
+                    const files = Array.from(event.target.files ?? []);
+                    if (files.length > 0) onLoadSky(files);
+                    event.target.value = "";
+                  }}
+                />
+              </div>
+            )}
+            <SliderField
+              label="Sky brightness"
+              value={sky.intensity}
+              min={0}
+              max={4}
+              step={0.05}
+              disabled={!skyName}
+              onChange={(intensity) => update("sky", { intensity })}
+            />
+            {(["X", "Y", "Z"] as const).map((axis, index) => (
+              <SliderField
+                key={axis}
+                label={`Sky rotation ${axis} (°)`}
+                value={sky.rotation[index]}
+                min={-180}
+                max={180}
+                step={1}
+                format={(value) => value.toFixed(0)}
+                onChange={(angle) =>
+                  update("sky", {
+                    rotation: sky.rotation.map((value, i) =>
+                      i === index ? angle : value
+                    ) as [number, number, number],
+                  })
+                }
+              />
+            ))}
+            <SliderField
+              label="Exposure"
+              value={render.exposure}
+              min={0.1}
+              max={4}
+              step={0.05}
+              onChange={(exposure) => update("render", { exposure })}
+            />
+            <div className="flex items-center justify-between text-sm">
+              <Label>Quality</Label>
+              <Select
+                value={qualityPresetOf(render)}
+                onValueChange={(value) =>
+                  update("render", QUALITY_PRESETS[value as QualityPreset])
+                }
+              >
+                <SelectTrigger className="w-32">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent className="dark">
+                  <SelectItem value="low">Low</SelectItem>
+                  <SelectItem value="medium">Medium</SelectItem>
+                  <SelectItem value="high">High</SelectItem>
+                  <SelectItem value="custom" disabled>
+                    Custom
+                  </SelectItem>
+                </SelectContent>
+              </Select>
+            </div>
+            <SwitchField
+              label="Adaptive resolution"
+              checked={render.adaptiveResolution}
+              onChange={(adaptiveResolution) =>
+                update("render", { adaptiveResolution })
+              }
+            />
+            <SliderField
+              label="Target frame rate (fps)"
+              value={render.targetFps}
+              min={10}
+              max={144}
+              step={1}
+              disabled={!render.adaptiveResolution}
+              format={(value) => value.toFixed(0)}
+              onChange={(targetFps) => update("render", { targetFps })}
+            />
+          </TabsContent>
+
+          {canExport && (
+            <TabsContent value="export" className="space-y-6 pt-4">
+              {onExportImage && <ImageExportFields onExport={onExportImage} />}
+              {onExportImage && onExportVideo && <Separator />}
+              {onExportVideo && (
+                <VideoExportFields
+                  onExport={onExportVideo}
+                  pathDuration={cameraPathDuration}
+                />
+              )}
+            </TabsContent>
+          )}
+        </Tabs>
+      </SheetContent>
+    </Sheet>
+  );
+}
@@ -0,0 +1,233 @@
+"use client";
+
+import { useEffect, useMemo, useRef, useState } from "react";
+import {
+  bodyTimeDilation,
+  createBodyOrbits,
+  ORBIT_TIME_SCALE,
+} from "@/lib/bodies";
+import { cameraVelocity } from "@/lib/camera-motion";
+import { enduranceOrbit } from "@/lib/endurance-orbit";
+import type { SphericalOrbit } from "@/lib/physics/spherical-orbit";
+import { hoveringTimeDilation } from "@/lib/physics/time-dilation";
+import { dot, type Vec3 } from "@/lib/physics/vec3";
+import type { SceneConfig } from "@/lib/scene-config";
+
+type TimeDilationHudProps = {
+  config: SceneConfig;
+  // Seconds of simulated time
+  time: () => number;
+  // Where the camera is, or null before the canvas is ready
+  cameraPosition: () => Vec3 | null;
+};
+
+type Readout = {
+  // dt/dτ for each body, null once it has fallen in
+  bodies: (number | null)[];
+  camera: number;
+  mission: number;
+  earth: number;
+  cameraClock: number;
+};
+
+// Refreshed a few times a second; the numbers change too fast to read at
+// the frame rate anyway
+const REFRESH_INTERVAL = 250;
+
+const SECONDS_PER_YEAR = 365.25 * 86400;
+
+function formatDuration(seconds: number) {
+  if (!Number.isFinite(seconds)) return "∞";
+  if (seconds < 60) return `${seconds.toFixed(1)} s`;
+
+  const whole = Math.floor(seconds);
+  const [days, hours, minutes] = [
+    Math.floor(whole / 86400),
+    Math.floor(whole / 3600) % 24,
+    Math.floor(whole / 60) % 60,
+  ];
+  if (seconds < 3600) return `${minutes} min ${whole % 60} s`;
+  if (seconds < 86400) return `${hours} h ${minutes} min`;
+  if (seconds < SECONDS_PER_YEAR) return `${days} d ${hours} h`;
+  return `${(seconds / SECONDS_PER_YEAR).toFixed(2)} years`;
+}
+
+const formatFactor = (factor: number) =>
+  Number.isFinite(factor) ? `×${factor.toFixed(factor < 10 ? 3 : 1)}` : "∞";
+
+// One turn of the Endurance orbit, in the camera's time and on Earth
+function OrbitPeriod({ orbit }: { orbit: SphericalOrbit }) {
+  return (
+    <tr>
+      <td className="pr-3">Orbit</td>
+      <td className="pr-3">
+        {formatDuration(orbit.properPeriod / ORBIT_TIME_SCALE)}
+      </td>
+      <td className="text-white/60">
+        {formatDuration(orbit.coordinatePeriod / ORBIT_TIME_SCALE)} on Earth
+      </td>
+    </tr>
+  );
+}
+
+// The Endurance orbit's period on its own, while the full readout is off
+export function EnduranceHud({ config }: { config: SceneConfig }) {
+  const { endurance } = config.camera;
+  const { blackHole } = config;
+  const orbit = useMemo(
+    () => enduranceOrbit(endurance, blackHole),
+    [endurance, blackHole]
+  );
+
+  return (
+    <div className="absolute bottom-5 left-5 space-y-2 rounded-md border border-white/20 bg-black/60 p-3 text-xs text-white">
+      <p className="font-medium">Endurance orbit</p>
+      <table className="tabular-nums">
+        <tbody>
+          <OrbitPeriod orbit={orbit} />
+        </tbody>
+      </table>
+    </div>
+  );
+}
+
+// How fast clocks run near the hole. The mission clock is the proper time
+// of the first body still orbiting (of the camera once none is), taken
+// as one second per second of animation; the Earth and camera clocks show
+// how much time passes meanwhile far away and at the camera, which runs
+// slow by its Lorentz factor on top of the hovering rate when it moves. On
+// the Endurance orbit the camera runs at the orbit's mean rate, and one
+// turn's proper and coordinate durations are shown in seconds of animation.
+export function TimeDilationHud({
+  config,
+  time,
+  cameraPosition,
+}: TimeDilationHudProps) {
+  const { bodies, blackHole, disk } = config;
+  const orbits = useMemo(
+    () => createBodyOrbits({ bodies, blackHole }),
+    [bodies, blackHole]
+  );
+  const endurance = useMemo(
+    () =>
+      config.camera.mode === "endurance"
+        ? enduranceOrbit(config.camera.endurance, blackHole)
+        : null,
+    [config.camera.mode, config.camera.endurance, blackHole]
+  );
+  const [readout, setReadout] = useState<Readout | null>(null);
+
+  // Clocks are integrated over the mission clock, since the rates change
+  // as bodies swing round eccentric orbits and the camera moves
+  const clocks = useRef({ mission: 0, earth: 0, cameraClock: 0 });
+
+  useEffect(() => {
+    const update = () => {
+      const position = cameraPosition();
+      if (!position) return;
+
+      const now = time();
+      const factors = bodies.map((body, index) => {
+        const sample = orbits[index](now);
+        return sample.captured
+          ? null
+          : bodyTimeDilation(body, sample, blackHole);
+      });
+      const velocity = cameraVelocity(config.camera, position, {
+        blackHole,
+        disk,
+      });
+      const camera = endurance
+        ? endurance.coordinatePeriod / endurance.properPeriod
+        : hoveringTimeDilation(blackHole.mass, blackHole.spin, position) /
+          Math.sqrt(1 - dot(velocity, velocity));
+      const missionRate = factors.find((factor) => factor !== null) ?? camera;
+
+      // Start over when time jumps (a restored link or a camera path),
+      // as if the rates had held all along
+      const elapsed = now - clocks.current.mission;
+      if (elapsed < 0 || elapsed > 1) {
+        clocks.current = {
+          mission: now,
+          earth: missionRate * now,
+          cameraClock: (missionRate / camera) * now,
+        };
+      } else {
+        clocks.current = {
+          mission: now,
+          earth: clocks.current.earth + missionRate * elapsed,
+          cameraClock:
+            clocks.current.cameraClock + (missionRate / camera) * elapsed,
+        };
+      }
+
+      setReadout({ bodies: factors, camera, ...clocks.current });
+    };
+
+    update();
+    const interval = setInterval(update, REFRESH_INTERVAL);
+    return () => clearInterval(interval);
+  }, [
+    bodies,
+    blackHole,
+    disk,
+    config.camera,
+    endurance,
+    orbits,
+    time,
+    cameraPosition,
+  ]);
+
+  if (!readout) return null;
+
+  return (
+    <div className="absolute bottom-5 left-5 space-y-2 rounded-md border border-white/20 bg-black/60 p-3 text-xs text-white">
+      <p className="font-medium">Time dilation</p>
+      <table className="tabular-nums">
+        <tbody>
+          {readout.bodies.map((factor, index) => (
+            <tr key={index}>
+              <td className="pr-3">Body {index + 1}</td>
+              {factor === null ? (
+                <td colSpan={2} className="text-white/60">
+                  Swallowed
+                </td>
+              ) : (
+                <>
+                  <td className="pr-3">{formatFactor(factor)}</td>
+                  <td className="text-white/60">
+                    1 h = {formatDuration(3600 * factor)} on Earth
+                  </td>
+                </>
+              )}
+            </tr>
+          ))}
+          <tr>
+            <td className="pr-3">Camera</td>
+            <td className="pr-3">{formatFactor(readout.camera)}</td>
+            <td className="text-white/60">
+              1 h = {formatDuration(3600 * readout.camera)} on Earth
+            </td>
+          </tr>
+          {endurance && <OrbitPeriod orbit={endurance} />}
+        </tbody>
+      </table>
+      <table className="tabular-nums">
+        <tbody>
+          <tr>
+            <td className="pr-3">Mission clock</td>
+            <td>{formatDuration(readout.mission)}</td>
+          </tr>
+          <tr>
+            <td className="pr-3">Camera clock</td>
+            <td>{formatDuration(readout.cameraClock)}</td>
+          </tr>
+          <tr>
+            <td className="pr-3">Earth clock</td>
+            <td>{formatDuration(readout.earth)}</td>
+          </tr>
+        </tbody>
+      </table>
+    </div>
+  );
+}
@@ -0,0 +1,89 @@
+"use client";
+
+import { useCallback, useEffect, useRef } from "react";
+import { toast } from "@/hooks/use-toast";
+import {
+  decodeViewState,
+  encodeViewState,
+  type DecodedViewState,
+  type ViewState,
+} from "@/lib/url-state";
+
+// Quiet period after the last change before the address bar is rewritten
+const URL_UPDATE_DELAY = 400;
+
+type UrlViewStateOptions = {
+  enabled: boolean;
+  // Snapshot of what is on screen right now
+  read: () => ViewState;
+  // Apply state decoded from the URL on load
+  restore: (state: DecodedViewState) => void;
+};
+
+// Keeps the URL hash in sync with the view so it can be bookmarked or shared.
+// The hash is rewritten with replaceState, so navigating the scene never
+// floods the browser history.
+export function useUrlViewState({
+  enabled,
+  read,
+  restore,
+}: UrlViewStateOptions) {
+  const readRef = useRef(read);
+  const restoreRef = useRef(restore);
+  const timeoutRef = useRef<ReturnType<typeof setTimeout>>();
+  readRef.current = read;
+  restoreRef.current = restore;
+
+  useEffect(() => {
+    if (!enabled) return;
+
+    const decoded = decodeViewState(window.location.hash);
+    if (decoded.errors.length > 0) {
+      toast({
+        variant: "destructive",
+        title: "Could not fully restore the shared view",
+        description: decoded.errors.join("\n"),
+      });
+    }
+    restoreRef.current(decoded);
+
+    return () => clearTimeout(timeoutRef.current);
+  }, [enabled]);
+
+  // Debounced, so call it freely on every camera move or parameter edit
+  const scheduleUpdate = useCallback(() => {
+    if (!enabled) return;
+
+    clearTimeout(timeoutRef.current);
+    timeoutRef.current = setTimeout(() => {
+      const { pathname, search } = window.location;
+      const hash = encodeViewState(readRef.current());
+      window.history.replaceState(
+        window.history.state,
+        "",
+        `${pathname}${search}#${hash}`
+      );
+    }, URL_UPDATE_DELAY);
+  }, [enabled]);
+
+  const copyLink = useCallback(async () => {
+    const url = new URL(window.location.href);
+    url.hash = encodeViewState(readRef.current());
+
+    try {
+      await navigator.clipboard.writeText(url.toString());
+      toast({
+        title: "Link copied",
+        description: "Opening it restores this exact view.",
+      });
+    } catch {
+      toast({
+        variant: "destructive",
+        title: "Could not copy link",
+        description: "Clipboard access was denied by the browser.",
+      });
+    }
+  }, []);
+
+  return { scheduleUpdate, copyLink };
+}
@@ -0,0 +1,76 @@
+// Keeps the live view inside a frame-time budget by tracing fewer pixels
+// when frames run slow. The ray marcher's cost goes with the number of
+// pixels, so the resolution scale moves by the square root of how far the
+// frame time is off the budget. The temporal upscaler rebuilds the full
+// resolution from the jittered low-resolution frames.
+
+// Smallest fraction of the drawing buffer's width and height traced
+export const MIN_RESOLUTION_SCALE = 0.35;
+
+// Scales are rounded to this step, so the render target isn't reallocated
+// every frame as the frame time wobbles
+const SCALE_STEP = 0.05;
+
+// Frames to wait after a change before judging the new scale
+const SETTLE_FRAMES = 20;
+
+// The browser holds frames to the display's refresh rate, which can hide
+// headroom, so the scale only goes up once frames are well inside budget
+const SLOW = 1.05;
+const FAST = 0.8;
+
+// Returns a function taking each frame's duration in seconds and giving the
+// resolution scale to render the next one at
+export function createResolutionController(targetFps: number) {
+  const budget = 1 / targetFps;
+  let average = budget;
+  let scale = 1;
+  let settling = SETTLE_FRAMES;
+
+  return (frameTime: number) => {
+    // A stalled tab or a long export says nothing about the GPU
+    average += (Math.min(frameTime, 0.25) - average) * 0.1;
+    if (settling > 0) {
+      settling--;
+      return scale;
+    }
+
+    const load = average / budget;
+    if (load > SLOW || (load < FAST && scale < 1)) {
+      const factor = Math.min(Math.max(1 / Math.sqrt(load), 0.75), 1.15);
+      const next = Math.min(
+        Math.max(
+          Math.round((scale * factor) / SCALE_STEP) * SCALE_STEP,
+          MIN_RESOLUTION_SCALE
+        ),
+        1
+      );
+      if (next !== scale) {
+        scale = next;
+        settling = SETTLE_FRAMES;
+      }
+    }
+    return scale;
+  };
+}
+
+// Radical inverse of n in the given base, in [0, 1)
+function halton(n: number, base: number) {
+  let result = 0;
+  let fraction = 1 / base;
+  for (let i = n; i > 0; i = Math.floor(i / base)) {
+    result += (i % base) * fraction;
+    fraction /= base;
+  }
+  return result;
+}
+
+// Length of the jitter sequence before it repeats
+export const JITTER_LENGTH = 16;
+
+// Sub-pixel offset for frame n, in pixels within [−0.5, 0.5)²: the (2, 3)
+// Halton sequence, which covers the pixel evenly over any run of frames
+export const jitterOffset = (frame: number): [number, number] => {
+  const n = (frame % JITTER_LENGTH) + 1;
+  return [halton(n, 2) - 0.5, halton(n, 3) - 0.5];
+};
@@ -0,0 +1,143 @@
+import { horizonRadius, iscoRadius } from "@/lib/physics/kerr";
+import {
+  createCircularOrbit,
+  createOrbitPropagator,
+  isEquatorialCircle,
+  isStableUnderPrecession,
+  minimumStablePeriapsis,
+  periapsisRadius,
+  type OrbitalElements,
+  type OrbitSample,
+} from "@/lib/physics/orbits";
+import {
+  circularOrbitTimeDilation,
+  weakFieldTimeDilation,
+} from "@/lib/physics/time-dilation";
+import { length } from "@/lib/physics/vec3";
+import type { BodyConfig, SceneConfig } from "@/lib/scene-config";
+
+// Ties the planets in the scene config to the orbit integrator in
+// lib/physics/orbits.ts.
+
+// Geometric time units per second of animation, the same rate as the
+// disk's gas (DISK_TIME_SCALE in lib/shaders/chunks/disk.glsl)
+export const ORBIT_TIME_SCALE = 20;
+
+const toRadians = (degrees: number) => (degrees * Math.PI) / 180;
+
+export function orbitalElements({ orbit }: BodyConfig): OrbitalElements {
+  return {
+    semiMajorAxis: orbit.semiMajorAxis,
+    eccentricity: orbit.eccentricity,
+    inclination: toRadians(orbit.inclination),
+    ascendingNode: toRadians(orbit.ascendingNode),
+    argumentOfPeriapsis: toRadians(orbit.argumentOfPeriapsis),
+    meanAnomaly: toRadians(orbit.meanAnomaly),
+  };
+}
+
+// Whether a body follows an exact Kerr circular orbit rather than the
+// integrator: a circle in the disk plane, with relativity on
+const isKerrCircle = (body: BodyConfig) =>
+  body.precession && isEquatorialCircle(orbitalElements(body));
+
+// One sampler per body, taking seconds of simulated time. Bodies are
+// swallowed at the horizon.
+export function createBodyOrbits({
+  bodies,
+  blackHole,
+}: Pick<SceneConfig, "bodies" | "blackHole">) {
+  const capture = horizonRadius(blackHole.mass, blackHole.spin);
+  return bodies.map((body) => {
+    const elements = orbitalElements(body);
+    const propagate = isKerrCircle(body)
+      ? createCircularOrbit(elements, blackHole.mass, blackHole.spin)
+      : createOrbitPropagator(
+          elements,
+          blackHole.mass,
+          body.precession,
+          capture
+        );
+    return (seconds: number): OrbitSample =>
+      propagate(seconds * ORBIT_TIME_SCALE);
+  });
+}
+
+// Orbits that come closer than the hole allows, judged by the dynamics each
+// body follows: inside the horizon the body is lost; an exact Kerr circle
+// inside the ISCO (for an orbit turning with or against the hole's spin)
+// cannot stay; and under the integrator's correction an orbit reaching
+// inside minimumStablePeriapsis plunges. Newtonian orbits never do.
+export function orbitWarnings({
+  bodies,
+  blackHole,
+}: Pick<SceneConfig, "bodies" | "blackHole">) {
+  const horizon = horizonRadius(blackHole.mass, blackHole.spin);
+  const warnings: string[] = [];
+
+  bodies.forEach((body, index) => {
+    const elements = orbitalElements(body);
+    const periapsis = periapsisRadius(elements);
+    const name = `Body ${index + 1}`;
+
+    if (periapsis <= horizon) {
+      warnings.push(
+        `${name} dips to r = ${periapsis.toFixed(
+          1
+        )}, inside the horizon (r = ${horizon.toFixed(
+          2
+        )}), and will be swallowed`
+      );
+    } else if (isKerrCircle(body)) {
+      const isco = iscoRadius(
+        blackHole.mass,
+        blackHole.spin,
+        Math.cos(elements.inclination) > 0
+      );
+      if (periapsis < isco) {
+        warnings.push(
+          `${name} dips to r = ${periapsis.toFixed(
+            1
+          )}, inside the ISCO (r = ${isco.toFixed(
+            2
+          )}), where no orbit is stable`
+        );
+      }
+    } else if (
+      body.precession &&
+      !isStableUnderPrecession(elements, blackHole.mass)
+    ) {
+      const limit = minimumStablePeriapsis(
+        elements.eccentricity,
+        blackHole.mass
+      );
+      warnings.push(
+        `${name} dips to r = ${periapsis.toFixed(
+          1
+        )}, inside r = ${limit.toFixed(
+          2
+        )}, the closest a stable orbit this eccentric comes, and will plunge`
+      );
+    }
+  });
+
+  return warnings;
+}
+
+// Coordinate time per unit of the body's proper time at a sample of its
+// orbit: exact on a Kerr circle, to first order elsewhere
+export function bodyTimeDilation(
+  body: BodyConfig,
+  { position, velocity }: OrbitSample,
+  { mass, spin }: SceneConfig["blackHole"]
+) {
+  if (isKerrCircle(body)) {
+    return circularOrbitTimeDilation(
+      mass,
+      spin,
+      body.orbit.semiMajorAxis,
+      Math.cos(orbitalElements(body).inclination) > 0
+    );
+  }
+  return weakFieldTimeDilation(mass, length(position), length(velocity));
+}
@@ -0,0 +1,43 @@
+import { describe, expect, it } from "vitest";
+import { hoveringView } from "./camera-motion";
+import { dot, length, type Vec3 } from "./physics/vec3";
+
+// A direction at `angle` from +x, in the xz plane
+const direction = (angle: number): Vec3 => [
+  Math.cos(angle),
+  0,
+  Math.sin(angle),
+];
+
+describe("hoveringView", () => {
+  it("leaves the view of a hovering camera alone", () => {
+    const view = hoveringView(direction(1), [0, 0, 0]);
+    expect(view.direction).toEqual(direction(1));
+    expect(view.energy).toBe(1);
+  });
+
+  it.each([0.3, 0.6, 0.9])("narrows the forward cone at β = %s", (beta) => {
+    for (const angle of [0.2, 0.8, 1.5, 2.5]) {
+      const view = hoveringView(direction(angle), [beta, 0, 0]);
+      const cosine = view.direction[0];
+      expect(length(view.direction)).toBeCloseTo(1, 12);
+      // Light seen at `angle` from the motion comes from further back,
+      // by the aberration formula
+      expect(cosine).toBeLessThan(Math.cos(angle));
+      expect(cosine).toBeCloseTo(
+        (Math.cos(angle) - beta) / (1 - beta * Math.cos(angle)),
+        12
+      );
+      // and ahead it is blueshifted: less energy for the hovering observer
+      expect(view.energy).toBeCloseTo(
+        (1 - beta * Math.cos(angle)) / Math.sqrt(1 - beta * beta),
+        12
+      );
+    }
+  });
+
+  it("keeps the direction of motion fixed", () => {
+    const view = hoveringView([0, 1, 0], [0, 0.5, 0]);
+    expect(dot(view.direction, [0, 1, 0])).toBeCloseTo(1, 12);
+  });
+});
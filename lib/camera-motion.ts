@@ -0,0 +1,74 @@
+import { clampSpin, fromCartesian, localDirections } from "@/lib/physics/kerr";
+import { circularOrbitSpeed } from "@/lib/physics/redshift";
+import { add, dot, length, type Vec3 } from "@/lib/physics/vec3";
+import type { SceneConfig } from "@/lib/scene-config";
+
+// The orbiting camera's velocity relative to an observer hovering where it
+// is (the zero-angular-momentum observer the ray tracer launches rays
+// from), which the shader uses to aberrate and Doppler shift the view.
+
+// Fastest the camera is allowed to go, as a fraction of c. Inside the photon
+// orbit a circular orbit would be at or past light speed.
+export const MAX_CAMERA_SPEED = 0.99;
+
+// Velocity as a fraction of c in scene axes. An orbiting camera moves round
+// the spin axis at the speed of an equatorial circular orbit at its radius,
+// the same way as the disk; a custom one at the configured components along
+// increasing r, θ and φ.
+export function cameraVelocity(
+  { motion, velocity }: SceneConfig["camera"],
+  position: Vec3,
+  { blackHole, disk }: Pick<SceneConfig, "blackHole" | "disk">
+): Vec3 {
+  if (motion === "hovering") return [0, 0, 0];
+
+  const a = clampSpin(blackHole.mass, blackHole.spin);
+  const bl = fromCartesian(position, a);
+  const components: Vec3 =
+    motion === "orbiting"
+      ? [
+          0,
+          0,
+          circularOrbitSpeed(
+            blackHole.mass,
+            blackHole.spin,
+            bl.r,
+            !disk.retrograde
+          ),
+        ]
+      : velocity;
+
+  // Nothing hovers inside the horizon, where the speed is undefined
+  const speed = length(components);
+  if (!Number.isFinite(speed)) return [0, 0, 0];
+  const scale = speed > MAX_CAMERA_SPEED ? MAX_CAMERA_SPEED / speed : 1;
+
+  const [eR, eTheta, ePhi] = localDirections(bl, a);
+  return [eR, eTheta, ePhi].reduce<Vec3>(
+    (sum, axis, index) => add(sum, axis, components[index] * scale),
+    [0, 0, 0]
+  );
+}
+
+// Light the camera moving at `velocity` sees in `direction` with unit
+// energy, as the hovering observer sees it: the direction it arrives from
+// and its energy there. The CPU copy of hoveringView in the shader's
+// relativity chunk; the boost crowds the sky towards the direction of
+// motion.
+export function hoveringView(direction: Vec3, velocity: Vec3) {
+  const speed2 = dot(velocity, velocity);
+  if (speed2 < 1e-12) return { direction, energy: 1 };
+
+  const gamma = 1 / Math.sqrt(1 - speed2);
+  const along = -dot(velocity, direction);
+  const energy = gamma * (1 + along);
+  const travel = add(
+    [-direction[0], -direction[1], -direction[2]],
+    velocity,
+    ((gamma - 1) * along) / speed2 + gamma
+  );
+  return {
+    direction: add([0, 0, 0], travel, -1 / energy),
+    energy,
+  };
+}
@@ -0,0 +1,290 @@
+import { z } from "zod";
+import type { Vec3 } from "@/lib/physics/vec3";
+import { formatIssues, type SceneConfig } from "@/lib/scene-config";
+
+// Authored camera moves: keyframes on a timeline, interpolated with
+// Catmull-Rom or cubic Bézier splines. Paths round-trip through JSON, and
+// `validateCameraPath` reports bad files field by field like the scene config.
+
+const vec3 = z.tuple([z.number(), z.number(), z.number()]);
+
+export const easingSchema = z.enum([
+  "linear",
+  "ease-in",
+  "ease-out",
+  "ease-in-out",
+]);
+
+export const interpolationSchema = z.enum(["catmull-rom", "bezier"]);
+
+// Scene parameters a path may animate, and where they live in SceneConfig
+const PARAMETER_PATHS = {
+  mass: ["blackHole", "mass"],
+  spin: ["blackHole", "spin"],
+  temperature: ["disk", "temperature"],
+  dopplerStrength: ["disk", "dopplerStrength"],
+  exposure: ["render", "exposure"],
+  starDensity: ["sky", "starDensity"],
+} as const;
+
+export type PathParameter = keyof typeof PARAMETER_PATHS;
+export type PathParameters = Partial<Record<PathParameter, number>>;
+
+const parametersSchema = z
+  .object({
+    mass: z.number().positive(),
+    spin: z.number().min(0),
+    temperature: z.number().positive(),
+    dopplerStrength: z.number().min(0).max(1),
+    exposure: z.number().positive(),
+    starDensity: z.number().nonnegative(),
+  })
+  .partial()
+  .strict();
+
+const keyframeSchema = z
+  .object({
+    // Seconds along the path
+    time: z.number().nonnegative(),
+    position: vec3,
+    target: vec3.default([0, 0, 0]),
+    fov: z.number().gt(0).lt(180).default(75),
+    // Simulation clock at this keyframe, which drives the disk and planets
+    sceneTime: z.number().default(0),
+    // Values held from the nearest keyframe that sets them when omitted
+    parameters: parametersSchema.default({}),
+    // Shapes the segment leaving this keyframe
+    easing: easingSchema.default("linear"),
+    // Bézier control points for the position, relative to it. Without them
+    // the Bézier curve matches Catmull-Rom through the same keyframes.
+    handles: z.object({ in: vec3, out: vec3 }).strict().optional(),
+  })
+  .strict();
+
+export const cameraPathSchema = z
+  .object({
+    version: z.literal(1).default(1),
+    interpolation: interpolationSchema.default("catmull-rom"),
+    keyframes: z.array(keyframeSchema).default([]),
+  })
+  .strict()
+  .refine(
+    ({ keyframes }) =>
+      keyframes.every((key, i) => i === 0 || key.time > keyframes[i - 1].time),
+    {
+      message: "Keyframe times must be strictly increasing",
+      path: ["keyframes"],
+    }
+  );
+
+export type Easing = z.infer<typeof easingSchema>;
+export type Interpolation = z.infer<typeof interpolationSchema>;
+export type Keyframe = z.output<typeof keyframeSchema>;
+export type CameraPath = z.output<typeof cameraPathSchema>;
+
+// Everything the path dictates at one instant
+export type CameraSample = {
+  position: Vec3;
+  target: Vec3;
+  fov: number;
+  sceneTime: number;
+  parameters: PathParameters;
+};
+
+export const emptyCameraPath: CameraPath = cameraPathSchema.parse({});
+
+export const EASINGS: Record<Easing, (u: number) => number> = {
+  linear: (u) => u,
+  "ease-in": (u) => u * u * u,
+  "ease-out": (u) => 1 - (1 - u) ** 3,
+  "ease-in-out": (u) => u * u * (3 - 2 * u),
+};
+
+export const pathDuration = ({ keyframes }: CameraPath) =>
+  keyframes.length > 0 ? keyframes[keyframes.length - 1].time : 0;
+
+// Cubic Bézier through p1 and p2 with control points c1 and c2
+const bezier = (p1: number, c1: number, c2: number, p2: number, u: number) => {
+  const v = 1 - u;
+  return (
+    v * v * v * p1 + 3 * v * v * u * c1 + 3 * v * u * u * c2 + u * u * u * p2
+  );
+};
+
+// Uniform Catmull-Rom written as a Bézier: the control points sit a sixth of
+// the neighbour-to-neighbour chord away from each end
+const catmullRom = (
+  p0: number,
+  p1: number,
+  p2: number,
+  p3: number,
+  u: number
+) => bezier(p1, p1 + (p2 - p0) / 6, p2 - (p3 - p1) / 6, p2, u);
+
+function interpolateVec3(
+  points: Vec3[],
+  i: number,
+  u: number,
+  handles?: { out?: Vec3; in?: Vec3 }
+): Vec3 {
+  const p0 = points[Math.max(i - 1, 0)];
+  const p1 = points[i];
+  const p2 = points[i + 1];
+  const p3 = points[Math.min(i + 2, points.length - 1)];
+
+  return [0, 1, 2].map((axis) =>
+    handles
+      ? bezier(
+          p1[axis],
+          p1[axis] + (handles.out?.[axis] ?? (p2[axis] - p0[axis]) / 6),
+          p2[axis] + (handles.in?.[axis] ?? -(p3[axis] - p1[axis]) / 6),
+          p2[axis],
+          u
+        )
+      : catmullRom(p0[axis], p1[axis], p2[axis], p3[axis], u)
+  ) as Vec3;
+}
+
+// Value of `parameter` at keyframe i, held from the nearest keyframe that
+// sets it (earlier ones first)
+function parameterAt(keyframes: Keyframe[], i: number, key: PathParameter) {
+  for (let j = i; j >= 0; j--) {
+    const value = keyframes[j].parameters[key];
+    if (value !== undefined) return value;
+  }
+  for (let j = i + 1; j < keyframes.length; j++) {
+    const value = keyframes[j].parameters[key];
+    if (value !== undefined) return value;
+  }
+  return undefined;
+}
+
+export function evaluatePath(path: CameraPath, time: number): CameraSample {
+  const { keyframes, interpolation } = path;
+  if (keyframes.length === 0) {
+    throw new Error("Cannot evaluate a camera path without keyframes");
+  }
+
+  if (keyframes.length === 1) {
+    const [{ position, target, fov, sceneTime, parameters }] = keyframes;
+    return { position, target, fov, sceneTime, parameters };
+  }
+
+  // Segment i runs from keyframe i to i + 1
+  const last = keyframes.length - 1;
+  let i = 0;
+  while (i < last - 1 && time >= keyframes[i + 1].time) i++;
+
+  const from = keyframes[i];
+  const to = keyframes[i + 1];
+  const span = to.time - from.time;
+  const linear =
+    span > 0 ? Math.min(Math.max((time - from.time) / span, 0), 1) : 0;
+  const u = EASINGS[from.easing](linear);
+
+  const at = (index: number) => keyframes[Math.min(Math.max(index, 0), last)];
+  const scalar = (read: (key: Keyframe) => number) =>
+    catmullRom(read(at(i - 1)), read(from), read(to), read(at(i + 2)), u);
+
+  // Parameters blend without the spline's overshoot, so they never leave
+  // the range spanned by their keyframes (and stay valid)
+  const parameters: PathParameters = {};
+  for (const key of Object.keys(PARAMETER_PATHS) as PathParameter[]) {
+    const start = parameterAt(keyframes, i, key);
+    const end = parameterAt(keyframes, i + 1, key);
+    if (start === undefined || end === undefined) continue;
+    parameters[key] = start + (end - start) * u;
+  }
+
+  const handles =
+    interpolation === "bezier"
+      ? { out: from.handles?.out, in: to.handles?.in }
+      : undefined;
+
+  return {
+    position: interpolateVec3(
+      keyframes.map((key) => key.position),
+      i,
+      u,
+      handles
+    ),
+    target: interpolateVec3(
+      keyframes.map((key) => key.target),
+      i,
+      u
+    ),
+    fov: scalar((key) => key.fov),
+    // Scene time runs linearly so the disk never rewinds between keyframes
+    sceneTime: from.sceneTime + (to.sceneTime - from.sceneTime) * linear,
+    parameters,
+  };
+}
+
+export function capturePathParameters(config: SceneConfig): PathParameters {
+  const parameters: PathParameters = {};
+  for (const [key, [section, field]] of Object.entries(PARAMETER_PATHS)) {
+    parameters[key as PathParameter] = (
+      config[section] as Record<string, unknown>
+    )[field] as number;
+  }
+  return parameters;
+}
+
+// `config` with one animated parameter set, in the section it lives in
+const withParameter = <K extends PathParameter>(
+  config: SceneConfig,
+  key: K,
+  value: number
+): SceneConfig => {
+  const [section, field] = PARAMETER_PATHS[key];
+  return { ...config, [section]: { ...config[section], [field]: value } };
+};
+
+// `config` with the path's animated parameters written over it
+export function applyPathParameters(
+  config: SceneConfig,
+  parameters: PathParameters = {}
+): SceneConfig {
+  let result = config;
+  for (const [key, value] of Object.entries(parameters)) {
+    result = withParameter(result, key as PathParameter, value);
+  }
+  return result;
+}
+
+// Add a keyframe, replacing one already at (almost) the same time
+export function upsertKeyframe(path: CameraPath, keyframe: Keyframe) {
+  const keyframes = path.keyframes
+    .filter((key) => Math.abs(key.time - keyframe.time) > 1e-3)
+    .concat(keyframe)
+    .sort((a, b) => a.time - b.time);
+  return { ...path, keyframes };
+}
+
+export const serializeCameraPath = (path: CameraPath) =>
+  JSON.stringify(path, null, 2);
+
+export type CameraPathResult =
+  | { success: true; path: CameraPath }
+  | { success: false; errors: string[] };
+
+// Parse and validate a path file, reporting each problem by its field path,
+// e.g. "keyframes.2.fov: Number must be less than 180"
+export function validateCameraPath(json: string): CameraPathResult {
+  let data: unknown;
+  try {
+    data = JSON.parse(json);
+  } catch {
+    return { success: false, errors: ["Not valid JSON"] };
+  }
+
+  const result = cameraPathSchema.safeParse(data);
+  if (result.success) {
+    return { success: true, path: result.data };
+  }
+
+  return {
+    success: false,
+    errors: formatIssues(result.error),
+  };
+}
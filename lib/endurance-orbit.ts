@@ -0,0 +1,40 @@
+import { ORBIT_TIME_SCALE } from "@/lib/bodies";
+import {
+  createSphericalOrbit,
+  sphericalOrbit,
+} from "@/lib/physics/spherical-orbit";
+import type { SceneConfig } from "@/lib/scene-config";
+
+// Ties the Endurance orbit camera in the scene config to
+// lib/physics/spherical-orbit.ts. The camera's proper time runs at
+// ORBIT_TIME_SCALE, as the bodies' coordinate time does.
+
+type EnduranceConfig = SceneConfig["camera"]["endurance"];
+
+export const enduranceOrbit = (
+  { radius, inclination, retrograde }: EnduranceConfig,
+  { mass, spin }: SceneConfig["blackHole"]
+) =>
+  sphericalOrbit(
+    radius,
+    (inclination * Math.PI) / 180,
+    !retrograde,
+    mass,
+    spin
+  );
+
+// Samples the camera's orbit any number of seconds in, starting where it
+// crosses the disk plane at the given azimuth
+export function createEnduranceCamera(
+  endurance: EnduranceConfig,
+  blackHole: SceneConfig["blackHole"],
+  startAzimuth: number
+) {
+  const sample = createSphericalOrbit(
+    enduranceOrbit(endurance, blackHole),
+    startAzimuth,
+    blackHole.mass,
+    blackHole.spin
+  );
+  return (seconds: number) => sample(seconds * ORBIT_TIME_SCALE);
+}
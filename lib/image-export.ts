@@ -0,0 +1,153 @@
+import * as THREE from "three";
+
+// Poster-size stills: the view is re-rendered tile by tile through the
+// renderer's drawing buffer and stitched on a 2D canvas, so the output size
+// is limited only by the 2D canvas, not by the GPU's maximum texture size.
+//
+// Tiles go through the canvas itself rather than a WebGLRenderTarget because
+// three r149 renders targets without the sRGB output encoding, which would
+// leave the lit meshes darker than in the live view.
+
+export type ImageExportOptions = {
+  width: number;
+  height: number;
+  // Rays per pixel along each axis; the shader averages N×N of them
+  supersample: number;
+};
+
+export type Tile = {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+};
+
+export type TiledRenderOptions = {
+  width: number;
+  height: number;
+  tileSize?: number;
+  onProgress?: (done: number, total: number) => void;
+};
+
+// Resolutions offered in the export menu
+export const EXPORT_RESOLUTIONS = {
+  "1080p": { width: 1920, height: 1080 },
+  "4K": { width: 3840, height: 2160 },
+  "8K": { width: 7680, height: 4320 },
+} as const;
+
+export type ExportResolution = keyof typeof EXPORT_RESOLUTIONS;
+
+// Split a width×height image into row-major tiles of at most tileSize pixels
+export function planTiles(width: number, height: number, tileSize: number) {
+  const tiles: Tile[] = [];
+
+  for (let y = 0; y < height; y += tileSize) {
+    for (let x = 0; x < width; x += tileSize) {
+      tiles.push({
+        x,
+        y,
+        width: Math.min(tileSize, width - x),
+        height: Math.min(tileSize, height - y),
+      });
+    }
+  }
+
+  return tiles;
+}
+
+const nextFrame = () =>
+  new Promise<void>((resolve) => requestAnimationFrame(() => resolve()));
+
+// Render `camera`'s view at an arbitrary resolution. The caller should stop
+// the live render loop first; the renderer's size is restored afterwards.
+export async function renderTiled(
+  gl: THREE.WebGLRenderer,
+  scene: THREE.Scene,
+  camera: THREE.PerspectiveCamera,
+  { width, height, tileSize = 512, onProgress }: TiledRenderOptions
+) {
+  const output = document.createElement("canvas");
+  output.width = width;
+  output.height = height;
+  const context = output.getContext("2d");
+  if (!context) {
+    throw new Error("Could not create a 2D canvas for the export");
+  }
+
+  // A snapshot of the camera, so the live controls can't move it mid-export
+  const view = camera.clone();
+  view.aspect = width / height;
+
+  const size = Math.min(tileSize, gl.capabilities.maxTextureSize);
+  const tiles = planTiles(width, height, size);
+  const previousSize = gl.getSize(new THREE.Vector2());
+  const previousPixelRatio = gl.getPixelRatio();
+
+  gl.setPixelRatio(1);
+
+  try {
+    for (const [index, tile] of tiles.entries()) {
+      view.setViewOffset(
+        width,
+        height,
+        tile.x,
+        tile.y,
+        tile.width,
+        tile.height
+      );
+      gl.setSize(tile.width, tile.height, false);
+      gl.render(scene, view);
+
+      // Copy before yielding: the drawing buffer is cleared once composited
+      context.drawImage(
+        gl.domElement,
+        0,
+        0,
+        tile.width,
+        tile.height,
+        tile.x,
+        tile.y,
+        tile.width,
+        tile.height
+      );
+
+      onProgress?.(index + 1, tiles.length);
+      await nextFrame();
+    }
+  } finally {
+    gl.setPixelRatio(previousPixelRatio);
+    gl.setSize(previousSize.x, previousSize.y, false);
+  }
+
+  return output;
+}
+
+export const canvasToPng = (canvas: HTMLCanvasElement) =>
+  new Promise<Blob>((resolve, reject) =>
+    canvas.toBlob(
+      (blob) =>
+        blob
+          ? resolve(blob)
+          : reject(
+              new Error("The browser could not encode an image this large")
+            ),
+      "image/png"
+    )
+  );
+
+export function downloadBlob(blob: Blob, filename: string) {
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement("a");
+  link.href = url;
+  link.download = filename;
+  link.click();
+  setTimeout(() => URL.revokeObjectURL(url), 0);
+}
+
+export async function downloadCanvas(
+  canvas: HTMLCanvasElement,
+  filename: string
+) {
+  downloadBlob(await canvasToPng(canvas), filename);
+}
@@ -0,0 +1,80 @@
+import { describe, expect, it } from "vitest";
+import {
+  BLACKBODY_LUT_SIZE,
+  BLACKBODY_MAX_TEMPERATURE,
+  BLACKBODY_MIN_TEMPERATURE,
+  blackbodyLuminance,
+  blackbodyRgb,
+  blackbodyXyz,
+  createBlackbodyLut,
+  lutTemperature,
+} from "./blackbody";
+
+describe("blackbodyXyz", () => {
+  it("puts 6500 K next to the D65 white point", () => {
+    const [x, y, z] = blackbodyXyz(6500);
+    const sum = x + y + z;
+    // The Planckian locus passes just below D65 (0.3127, 0.3290)
+    expect(x / sum).toBeCloseTo(0.3135, 3);
+    expect(y / sum).toBeCloseTo(0.3237, 3);
+    expect(Math.hypot(x / sum - 0.3127, y / sum - 0.329)).toBeLessThan(0.006);
+  });
+});
+
+describe("blackbodyRgb", () => {
+  it("is near white at 6500 K", () => {
+    for (const channel of blackbodyRgb(6500)) {
+      expect(channel).toBeGreaterThan(0.95);
+      expect(channel).toBeLessThan(1.05);
+    }
+  });
+
+  it("is red when cool and blue when hot", () => {
+    const [coolRed, , coolBlue] = blackbodyRgb(3000);
+    const [hotRed, , hotBlue] = blackbodyRgb(20000);
+    expect(coolRed).toBeGreaterThan(coolBlue);
+    expect(hotBlue).toBeGreaterThan(hotRed);
+  });
+});
+
+describe("blackbodyLuminance", () => {
+  it("is 1 at the reference temperature", () => {
+    expect(blackbodyLuminance(6500)).toBeCloseTo(1, 12);
+  });
+
+  it("increases with temperature", () => {
+    let previous = 0;
+    for (let i = 0; i < BLACKBODY_LUT_SIZE; i += 5) {
+      const luminance = blackbodyLuminance(lutTemperature(i));
+      expect(luminance).toBeGreaterThan(previous);
+      previous = luminance;
+    }
+  });
+});
+
+describe("lutTemperature", () => {
+  it("spans the table's range end to end", () => {
+    expect(lutTemperature(0)).toBe(BLACKBODY_MIN_TEMPERATURE);
+    expect(lutTemperature(BLACKBODY_LUT_SIZE - 1)).toBeCloseTo(
+      BLACKBODY_MAX_TEMPERATURE,
+      6
+    );
+    expect(lutTemperature(15, 16)).toBeCloseTo(BLACKBODY_MAX_TEMPERATURE, 6);
+  });
+
+  it("spaces texels evenly in log temperature", () => {
+    const ratio = lutTemperature(1) / lutTemperature(0);
+    expect(lutTemperature(101) / lutTemperature(100)).toBeCloseTo(ratio, 12);
+  });
+});
+
+describe("createBlackbodyLut", () => {
+  it("stores the colour and log2 luminance of each texel", () => {
+    const lut = createBlackbodyLut(16);
+    expect(lut).toHaveLength(64);
+    const temperature = lutTemperature(7, 16);
+    const rgb = blackbodyRgb(temperature);
+    rgb.forEach((channel, i) => expect(lut[28 + i]).toBeCloseTo(channel, 5));
+    expect(lut[31]).toBeCloseTo(Math.log2(blackbodyLuminance(temperature)), 4);
+  });
+});
@@ -0,0 +1,101 @@
+// Colour of thermal emission: Planck spectra integrated against the CIE 1931
+// 2° colour-matching functions, then converted to linear sRGB. The shader
+// reads this from a lookup texture built by `createBlackbodyLut`, indexed by
+// log temperature.
+
+import type { Vec3 } from "./vec3";
+
+// Temperature range covered by the lookup table, in kelvin. Doppler and
+// gravitational shifts can move the disk well outside its own range.
+export const BLACKBODY_MIN_TEMPERATURE = 500;
+export const BLACKBODY_MAX_TEMPERATURE = 100000;
+export const BLACKBODY_LUT_SIZE = 256;
+
+// Luminances are stored relative to a blackbody at this temperature
+const REFERENCE_TEMPERATURE = 6500;
+
+// Second radiation constant hc/k, in metre kelvins
+const C2 = 1.438777e-2;
+
+// Visible range and step of the spectral integration, in nanometres
+const WAVELENGTH_MIN = 380;
+const WAVELENGTH_MAX = 780;
+const WAVELENGTH_STEP = 5;
+
+// Spectral radiance of a blackbody, up to a constant factor (2hc²)
+export function planckRadiance(wavelength: number, temperature: number) {
+  const metres = wavelength * 1e-9;
+  return 1 / (metres ** 5 * Math.expm1(C2 / (metres * temperature)));
+}
+
+// Piecewise Gaussian with separate widths either side of the peak
+const lobe = (x: number, mean: number, below: number, above: number) => {
+  const t = (x - mean) / (x < mean ? below : above);
+  return Math.exp(-0.5 * t * t);
+};
+
+// CIE 1931 2° observer x̄, ȳ, z̄ at a wavelength in nanometres, using the
+// multi-lobe fit of Wyman, Sloan & Shirley (2013)
+export function cieColorMatching(wavelength: number): Vec3 {
+  const w = wavelength;
+  return [
+    1.056 * lobe(w, 599.8, 37.9, 31.0) +
+      0.362 * lobe(w, 442.0, 16.0, 26.7) -
+      0.065 * lobe(w, 501.1, 20.4, 26.2),
+    0.821 * lobe(w, 568.8, 46.9, 40.5) + 0.286 * lobe(w, 530.9, 16.3, 31.1),
+    1.217 * lobe(w, 437.0, 11.8, 36.0) + 0.681 * lobe(w, 459.0, 26.0, 13.8),
+  ];
+}
+
+// CIE XYZ of a blackbody, up to the same constant factor as planckRadiance
+export function blackbodyXyz(temperature: number): Vec3 {
+  const xyz: Vec3 = [0, 0, 0];
+  for (let w = WAVELENGTH_MIN; w <= WAVELENGTH_MAX; w += WAVELENGTH_STEP) {
+    const radiance = planckRadiance(w, temperature) * WAVELENGTH_STEP;
+    const [x, y, z] = cieColorMatching(w);
+    xyz[0] += x * radiance;
+    xyz[1] += y * radiance;
+    xyz[2] += z * radiance;
+  }
+  return xyz;
+}
+
+// XYZ to linear sRGB primaries with the D65 white point
+export const xyzToLinearSrgb = ([x, y, z]: Vec3): Vec3 => [
+  3.2404542 * x - 1.5371385 * y - 0.4985314 * z,
+  -0.969266 * x + 1.8760108 * y + 0.041556 * z,
+  0.0556434 * x - 0.2040259 * y + 1.0572252 * z,
+];
+
+// Linear sRGB colour of a blackbody with unit luminance (Y = 1). Cool
+// blackbodies fall outside the sRGB gamut; negative channels are clipped.
+export function blackbodyRgb(temperature: number): Vec3 {
+  const xyz = blackbodyXyz(temperature);
+  return xyzToLinearSrgb(xyz).map((channel) =>
+    Math.max(channel / xyz[1], 0)
+  ) as Vec3;
+}
+
+// Visible luminance relative to a blackbody at the reference temperature
+export const blackbodyLuminance = (temperature: number) =>
+  blackbodyXyz(temperature)[1] / blackbodyXyz(REFERENCE_TEMPERATURE)[1];
+
+// Temperature at texel i of a table with `size` texels, spaced evenly in
+// log temperature between the minimum and maximum
+export function lutTemperature(index: number, size = BLACKBODY_LUT_SIZE) {
+  const ratio = BLACKBODY_MAX_TEMPERATURE / BLACKBODY_MIN_TEMPERATURE;
+  return BLACKBODY_MIN_TEMPERATURE * ratio ** (index / (size - 1));
+}
+
+// RGBA texels: unit-luminance colour in RGB and log2 of the relative
+// luminance in A. Luminance spans tens of orders of magnitude over the
+// range, so it is interpolated in log space.
+export function createBlackbodyLut(size = BLACKBODY_LUT_SIZE) {
+  const data = new Float32Array(size * 4);
+  for (let i = 0; i < size; i++) {
+    const temperature = lutTemperature(i, size);
+    data.set(blackbodyRgb(temperature), i * 4);
+    data[i * 4 + 3] = Math.log2(blackbodyLuminance(temperature));
+  }
+  return data;
+}
@@ -0,0 +1,36 @@
+import { describe, expect, it } from "vitest";
+import { diskTemperature, PEAK_PROFILE, PEAK_RADIUS_RATIO } from "./disk";
+
+describe("diskTemperature", () => {
+  const inner = 6;
+  const peak = 8000;
+
+  it("is zero at and inside the inner edge", () => {
+    expect(diskTemperature(inner, inner, peak)).toBe(0);
+    expect(diskTemperature(inner / 2, inner, peak)).toBe(0);
+  });
+
+  it("peaks at 49/36 of the inner radius", () => {
+    expect(PEAK_RADIUS_RATIO).toBe(49 / 36);
+    expect(diskTemperature(inner * PEAK_RADIUS_RATIO, inner, peak)).toBeCloseTo(
+      peak,
+      9
+    );
+    for (let radius = inner; radius < 10 * inner; radius += 0.05) {
+      expect(diskTemperature(radius, inner, peak)).toBeLessThanOrEqual(
+        peak * (1 + 1e-12)
+      );
+    }
+  });
+
+  it("falls off as r^(-3/4) far out", () => {
+    const far = diskTemperature(1e5 * inner, inner, peak);
+    const further = diskTemperature(8e5 * inner, inner, peak);
+    expect(far / further).toBeCloseTo(8 ** 0.75, 2);
+  });
+
+  it("normalises by the shader's peak profile", () => {
+    // peakProfile in diskTemperatureAt (lib/shaders/chunks/disk.glsl)
+    expect(PEAK_PROFILE).toBeCloseTo((36 / 49) ** 0.75 * (1 / 7) ** 0.25, 12);
+  });
+});
@@ -0,0 +1,24 @@
+// Thin accretion disk of Shakura & Sunyaev (1973). With zero torque at the
+// inner edge the effective temperature is
+//   T(r) ∝ r^(-3/4) (1 − √(r_in / r))^(1/4),
+// which vanishes at r_in and peaks at r = (49/36) r_in. The shader's
+// `diskTemperatureAt` in lib/shaders/chunks/disk.glsl mirrors this.
+
+// Radius of the hottest ring, as a multiple of the inner radius
+export const PEAK_RADIUS_RATIO = 49 / 36;
+
+const profile = (x: number) =>
+  x ** 0.75 * Math.max(1 - Math.sqrt(x), 0) ** 0.25;
+
+// Profile value at the peak, used to normalise it to the peak temperature
+export const PEAK_PROFILE = profile(1 / PEAK_RADIUS_RATIO);
+
+// Temperature at `radius` of a disk whose hottest ring is `peakTemperature`
+export function diskTemperature(
+  radius: number,
+  innerRadius: number,
+  peakTemperature: number
+) {
+  if (radius <= innerRadius) return 0;
+  return (peakTemperature * profile(innerRadius / radius)) / PEAK_PROFILE;
+}
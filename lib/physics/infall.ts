@@ -0,0 +1,413 @@
+// The diving camera: an observer falling freely into the hole along a
+// timelike Kerr geodesic, and the local frame it sees the sky in. Released
+// from rest where the camera is, it drops straight in; given angular
+// momentum it spirals in.
+//
+// Boyer–Lindquist t and φ blow up at the horizon, so the fall is followed in
+// ingoing Kerr coordinates (v, r, θ, φ̃), with dv = dt + (r² + a²)/Δ dr and
+// dφ̃ = dφ + a/Δ dr, which stay regular through it. The observer's axes are
+// built in the matching Kerr–Schild Cartesian coordinates (T, X, Y, Z),
+// T = v − r, where the metric is flat space plus f·l⊗l and the axes line up
+// with the scene's far from the hole. Geometric units, spin axis and Mino
+// time τ (dλ = Σ dτ) as in ./kerr.
+
+import {
+  clampSpin,
+  fromCartesian,
+  horizonRadius,
+  ingoingAzimuthShift,
+} from "./kerr";
+import type { Vec3 } from "./vec3";
+
+type Vec4 = [number, number, number, number];
+
+export interface InfallState {
+  r: number;
+  theta: number;
+  // Ingoing azimuth φ̃
+  phi: number;
+  // dr/dτ and dθ/dτ
+  rDot: number;
+  thetaDot: number;
+}
+
+// Conserved energy, angular momentum and Carter constant per unit mass
+export interface InfallConstants {
+  energy: number;
+  angularMomentum: number;
+  carter: number;
+}
+
+export interface InfallSample {
+  state: InfallState;
+  // Kerr–Schild Cartesian position, where the camera is placed
+  position: Vec3;
+  // Covariant (v, r, θ, φ̃) components of the observer's 4-velocity and of
+  // its x, y and z axes, one column each in Matrix4.fromArray order
+  frame: number[];
+  properTime: number;
+  // Whether the observer has reached the end of the fall
+  ended: boolean;
+}
+
+// Animation step, in seconds
+const DIVE_STEP = 1 / 120;
+
+// Seconds of animation over which a fall from far away shrinks r by a
+// factor e. Proper time runs slower and slower as the observer nears the
+// centre, so the last moments, which take a few M of proper time, last as
+// long on screen as the approach.
+export const DIVE_EFOLD_TIME = 2;
+
+// Inner (Cauchy) horizon r₋ = M − √(M² − a²). Past it the spacetime is no
+// longer determined by what fell in, and the dive stops just short of it;
+// for a non-spinning hole it is the central singularity.
+export const innerHorizonRadius = (mass: number, spin: number) =>
+  2 * mass - horizonRadius(mass, spin);
+
+const diveEndRadius = (mass: number, spin: number) =>
+  innerHorizonRadius(mass, spin) + 0.05 * mass;
+
+// Kerr–Schild Cartesian position: X + iZ = (r + ia)·sin θ·e^(iφ̃), Y = r cos θ
+export function kerrSchildPosition(
+  { r, theta, phi }: Pick<InfallState, "r" | "theta" | "phi">,
+  a: number
+): Vec3 {
+  const sinT = Math.sin(theta);
+  return [
+    sinT * (r * Math.cos(phi) - a * Math.sin(phi)),
+    r * Math.cos(theta),
+    sinT * (r * Math.sin(phi) + a * Math.cos(phi)),
+  ];
+}
+
+// g = η + f·l⊗l in (T, X, Y, Z), with f = 2Mr³/(r⁴ + a²Y²) and the ingoing
+// null covector l = (1, (rX + aZ)/(r² + a²), Y/r, (rZ − aX)/(r² + a²))
+function kerrSchildMetric(state: InfallState, mass: number, a: number) {
+  const { r, theta } = state;
+  const [x, y, z] = kerrSchildPosition(state, a);
+  const rho2 = r * r + a * a;
+  const f = (2 * mass * r * r * r) / (r * r * r * r + a * a * y * y);
+  const l: Vec4 = [
+    1,
+    (r * x + a * z) / rho2,
+    Math.cos(theta),
+    (r * z - a * x) / rho2,
+  ];
+  return l.map((li, i) =>
+    l.map((lj, j) => (i === j ? (i === 0 ? -1 : 1) : 0) + f * li * lj)
+  );
+}
+
+// ∂(T, X, Y, Z)/∂(v, r, θ, φ̃), row by row
+function kerrSchildJacobian(state: InfallState, a: number) {
+  const { r, theta, phi } = state;
+  const [sinT, cosT] = [Math.sin(theta), Math.cos(theta)];
+  const [sinP, cosP] = [Math.sin(phi), Math.cos(phi)];
+  const [x, , z] = kerrSchildPosition(state, a);
+  return [
+    [1, -1, 0, 0],
+    [0, sinT * cosP, cosT * (r * cosP - a * sinP), -z],
+    [0, cosT, -r * sinT, 0],
+    [0, sinT * sinP, cosT * (r * sinP + a * cosP), x],
+  ];
+}
+
+// R(r) = [E(r² + a²) − aL]² − Δ[r² + (L − aE)² + Q]; (dr/dτ)² = R
+export function timelikeRadialPotential(
+  r: number,
+  { energy, angularMomentum, carter }: InfallConstants,
+  mass: number,
+  a: number
+) {
+  const delta = r * r - 2 * mass * r + a * a;
+  const p = energy * (r * r + a * a) - a * angularMomentum;
+  const k = r * r + (angularMomentum - a * energy) ** 2 + carter;
+  return p * p - delta * k;
+}
+
+// Θ(θ) = Q − cos²θ[a²(1 − E²) + L²/sin²θ]; (dθ/dτ)² = Θ
+export function timelikePolarPotential(
+  theta: number,
+  { energy, angularMomentum, carter }: InfallConstants,
+  a: number
+) {
+  const cos2 = Math.cos(theta) ** 2;
+  const sin2 = Math.max(Math.sin(theta) ** 2, 1e-12);
+  return (
+    carter -
+    cos2 * (a * a * (1 - energy * energy) + angularMomentum ** 2 / sin2)
+  );
+}
+
+// Σ·dv/dλ and Σ·dφ̃/dλ share (P + dr/dτ)/Δ, which is finite at the horizon
+// for infall; written as K/(P − dr/dτ) there to avoid 0/0
+function ingoingRate(
+  { r, rDot }: InfallState,
+  { energy, angularMomentum, carter }: InfallConstants,
+  mass: number,
+  a: number
+) {
+  const delta = r * r - 2 * mass * r + a * a;
+  const p = energy * (r * r + a * a) - a * angularMomentum;
+  const k = r * r + (angularMomentum - a * energy) ** 2 + carter;
+  return rDot < 0 ? k / (p - rDot) : (p + rDot) / delta;
+}
+
+function derivatives(
+  state: InfallState,
+  constants: InfallConstants,
+  mass: number,
+  a: number
+): InfallState {
+  const { r, theta } = state;
+  const { energy, angularMomentum: l, carter } = constants;
+  const sinT = Math.max(Math.abs(Math.sin(theta)), 1e-6);
+  const cosT = Math.cos(theta);
+  const delta = r * r - 2 * mass * r + a * a;
+  const p = energy * (r * r + a * a) - a * l;
+  const k = r * r + (l - a * energy) ** 2 + carter;
+
+  return {
+    r: state.rDot,
+    theta: state.thetaDot,
+    phi:
+      a * ingoingRate(state, constants, mass, a) -
+      a * energy +
+      l / (sinT * sinT),
+    rDot: 2 * energy * r * p - (r - mass) * k - r * delta,
+    thetaDot:
+      a * a * (1 - energy * energy) * cosT * sinT +
+      (l * l * cosT) / (sinT * sinT * sinT),
+  };
+}
+
+const KEYS = ["r", "theta", "phi", "rDot", "thetaDot"] as const;
+
+const offset = (
+  s: InfallState,
+  d: InfallState,
+  scale: number
+): InfallState => ({
+  r: s.r + d.r * scale,
+  theta: s.theta + d.theta * scale,
+  phi: s.phi + d.phi * scale,
+  rDot: s.rDot + d.rDot * scale,
+  thetaDot: s.thetaDot + d.thetaDot * scale,
+});
+
+// Velocities back onto (dr/dτ)² = R and (dθ/dτ)² = Θ, keeping their signs,
+// as in ./kerr's rk4Step
+export function project(
+  state: InfallState,
+  constants: InfallConstants,
+  mass: number,
+  a: number
+): InfallState {
+  const radial = timelikeRadialPotential(state.r, constants, mass, a);
+  const polar = timelikePolarPotential(state.theta, constants, a);
+  return {
+    ...state,
+    rDot: Math.sign(state.rDot) * Math.sqrt(Math.max(radial, 0)),
+    thetaDot: Math.sign(state.thetaDot) * Math.sqrt(Math.max(polar, 0)),
+  };
+}
+
+// One classical RK4 step in Mino time
+export function rk4Step(
+  state: InfallState,
+  constants: InfallConstants,
+  mass: number,
+  a: number,
+  dTau: number
+) {
+  const k1 = derivatives(state, constants, mass, a);
+  const k2 = derivatives(offset(state, k1, dTau * 0.5), constants, mass, a);
+  const k3 = derivatives(offset(state, k2, dTau * 0.5), constants, mass, a);
+  const k4 = derivatives(offset(state, k3, dTau), constants, mass, a);
+
+  const next = { ...state };
+  for (const key of KEYS) {
+    next[key] += (dTau / 6) * (k1[key] + 2 * k2[key] + 2 * k3[key] + k4[key]);
+  }
+  return project(next, constants, mass, a);
+}
+
+// Contravariant 4-velocity in (v, r, θ, φ̃)
+function fourVelocity(
+  state: InfallState,
+  constants: InfallConstants,
+  mass: number,
+  a: number
+): Vec4 {
+  const { r, theta } = state;
+  const { energy, angularMomentum } = constants;
+  const sin2 = Math.sin(theta) ** 2;
+  const sigma = r * r + a * a * Math.cos(theta) ** 2;
+  const rate = ingoingRate(state, constants, mass, a);
+  const { phi } = derivatives(state, constants, mass, a);
+  return [
+    (r * r + a * a) * rate - a * (a * energy * sin2 - angularMomentum),
+    state.rDot,
+    state.thetaDot,
+    phi,
+  ].map((component) => component / sigma) as Vec4;
+}
+
+// The observer's 4-velocity and axes: Kerr–Schild X, Y and Z made
+// orthogonal to the 4-velocity and to each other in turn, then lowered and
+// pulled back to ingoing coordinates (p_a = p_μ ∂x^μ/∂y^a)
+export function observerFrame(
+  state: InfallState,
+  constants: InfallConstants,
+  mass: number,
+  spin: number
+) {
+  const a = clampSpin(mass, spin);
+  const g = kerrSchildMetric(state, mass, a);
+  const jacobian = kerrSchildJacobian(state, a);
+  const product = (x: Vec4, y: Vec4) =>
+    g.reduce((sum, row, i) => sum + x[i] * dot4(row, y), 0);
+  const combine = (x: Vec4, y: Vec4, scale: number) =>
+    x.map((xi, i) => xi + y[i] * scale) as Vec4;
+
+  const ingoing = fourVelocity(state, constants, mass, a);
+  const u = jacobian.map((row) => dot4(row, ingoing)) as Vec4;
+  const axes: Vec4[] = [];
+  for (let i = 1; i <= 3; i++) {
+    let axis: Vec4 = [0, 0, 0, 0];
+    axis[i] = 1;
+    // g(u, u) = −1, hence the plus sign
+    axis = combine(axis, u, product(axis, u));
+    for (const previous of axes) {
+      axis = combine(axis, previous, -product(axis, previous));
+    }
+    axes.push(combine([0, 0, 0, 0], axis, 1 / Math.sqrt(product(axis, axis))));
+  }
+
+  return [u, ...axes].flatMap((vector) => {
+    const lowered = g.map((row) => dot4(row, vector));
+    return [0, 1, 2, 3].map((column) =>
+      jacobian.reduce((sum, row, i) => sum + row[column] * lowered[i], 0)
+    );
+  });
+}
+
+const dot4 = (x: number[], y: number[]) =>
+  x[0] * y[0] + x[1] * y[1] + x[2] * y[2] + x[3] * y[3];
+
+// Angular momentum of the prograde circular equatorial orbit at r (Bardeen,
+// Press & Teukolsky 1972), 0 inside the photon orbit where there is none
+function circularAngularMomentum(r: number, mass: number, a: number) {
+  const root = Math.sqrt(mass * r);
+  const denominator =
+    r ** 0.75 *
+    Math.sqrt(r ** 1.5 - 3 * mass * Math.sqrt(r) + 2 * a * Math.sqrt(mass));
+  return denominator > 0
+    ? (Math.sqrt(mass) * (r * r - 2 * a * root + a * a)) / denominator
+    : 0;
+}
+
+// Constants for an observer let go at (r, θ) with no radial or polar
+// velocity, moving round the axis with `swirl` times the angular momentum
+// of a circular orbit there: E = α√(1 + L²/ϖ²) + ωL, and Q such that
+// Θ(θ) = 0.
+export function releaseConstants(
+  r: number,
+  theta: number,
+  mass: number,
+  a: number,
+  swirl: number
+): InfallConstants {
+  const sin2 = Math.max(Math.sin(theta) ** 2, 1e-12);
+  const cos2 = Math.cos(theta) ** 2;
+  const sigma = r * r + a * a * cos2;
+  const delta = r * r - 2 * mass * r + a * a;
+  const bigA = (r * r + a * a) ** 2 - a * a * delta * sin2;
+  const lapse = Math.sqrt((sigma * delta) / bigA);
+  const frameDragging = (2 * mass * a * r) / bigA;
+  const cylindricalRadius = Math.sqrt((bigA / sigma) * sin2);
+
+  const angularMomentum = swirl * circularAngularMomentum(r, mass, a);
+  const energy =
+    lapse * Math.sqrt(1 + (angularMomentum / cylindricalRadius) ** 2) +
+    frameDragging * angularMomentum;
+  const carter =
+    cos2 * (a * a * (1 - energy * energy) + angularMomentum ** 2 / sin2);
+  return { energy, angularMomentum, carter };
+}
+
+// Samples a dive begun at scene position `start` any number of seconds in,
+// stepping in fixed DIVE_STEPs and interpolating between them like
+// createOrbitPropagator in ./orbits. Starting points at or inside the
+// horizon are moved out to just above it.
+export function createInfall(
+  start: Vec3,
+  mass: number,
+  spin: number,
+  swirl: number
+) {
+  const a = clampSpin(mass, spin);
+  const release = fromCartesian(start, a);
+  const r0 = Math.max(release.r, 1.05 * horizonRadius(mass, a));
+  const constants = releaseConstants(r0, release.theta, mass, a, swirl);
+  const endRadius = diveEndRadius(mass, a);
+
+  const initial: InfallState = {
+    r: r0,
+    theta: release.theta,
+    phi: release.phi + ingoingAzimuthShift(r0, mass, a),
+    rDot: 0,
+    thetaDot: 0,
+  };
+  const advance = (state: InfallState) => {
+    // dτ/ds = r·√(r/2M)/DIVE_EFOLD_TIME, in Mino time dλ/Σ
+    const properStep =
+      (state.r * Math.sqrt(state.r / (2 * mass)) * DIVE_STEP) / DIVE_EFOLD_TIME;
+    const sigma = state.r ** 2 + a * a * Math.cos(state.theta) ** 2;
+    return {
+      state: rk4Step(state, constants, mass, a, properStep / sigma),
+      properStep,
+    };
+  };
+
+  let index = 0;
+  let properTime = 0;
+  let current = initial;
+  let next = advance(initial);
+  let ended = false;
+
+  return (seconds: number): InfallSample => {
+    const target = Math.max(seconds, 0) / DIVE_STEP;
+    if (target < index) {
+      index = 0;
+      properTime = 0;
+      current = initial;
+      next = advance(initial);
+      ended = false;
+    }
+
+    while (!ended && index + 1 <= target) {
+      index++;
+      properTime += next.properStep;
+      current = next.state;
+      next = advance(current);
+      ended = current.r <= endRadius;
+    }
+
+    const t = ended ? 0 : Math.min(target - index, 1);
+    const state = project(
+      offset(current, offset(next.state, current, -1), t),
+      constants,
+      mass,
+      a
+    );
+    return {
+      state,
+      position: kerrSchildPosition(state, a),
+      frame: observerFrame(state, constants, mass, a),
+      properTime: properTime + t * next.properStep,
+      ended,
+    };
+  };
+}
@@ -0,0 +1,39 @@
+import { describe, expect, it } from "vitest";
+import { shadowBoundary, traceRay } from "./kerr";
+
+describe("traceRay", () => {
+  // A camera far out on +x in the equatorial plane, looking at the hole. The
+  // hole turns from +x towards +z, so the +z side recedes from the camera.
+  const distance = 500;
+  const spin = 0.9;
+
+  // Offset along z of the shadow's edge on one side, by bisection
+  const shadowEdge = (side: number) => {
+    let inside = 0;
+    let outside = 10;
+    for (let i = 0; i < 30; i++) {
+      const offset = 0.5 * (inside + outside);
+      const { fate } = traceRay(
+        [distance, 0, side * offset],
+        [-1, 0, 0],
+        1,
+        spin,
+        {
+          maxDistance: 2 * distance,
+        }
+      );
+      if (fate === "horizon") inside = offset;
+      else outside = offset;
+    }
+    return inside;
+  };
+
+  // Parallel rays from 500M see the shadow from infinity to within 1%
+  it("matches Bardeen's shadow, flattened on the approaching side", () => {
+    const alphas = shadowBoundary(1, spin, Math.PI / 2).map(([alpha]) => alpha);
+    const receding = shadowEdge(1) / Math.max(...alphas);
+    const approaching = shadowEdge(-1) / -Math.min(...alphas);
+    expect(Math.abs(receding - 1)).toBeLessThan(0.01);
+    expect(Math.abs(approaching - 1)).toBeLessThan(0.01);
+  });
+});
@@ -0,0 +1,392 @@
+// CPU reference for the Kerr ray marcher, whose GLSL lives in
+// lib/shaders/chunks/relativity.glsl.
+// Boyer–Lindquist coordinates with the spin axis along +y (θ measured from +y,
+// φ = atan2(z, x)), embedded in the scene through the oblate spheroidal map
+// that BL coordinates reduce to far from the hole. Rays are integrated in
+// Mino time τ (dλ = Σ dτ), where the radial and polar motion decouple into
+// r'' = R'(r)/2 and θ'' = Θ'(θ)/2, so turning points need no sign tracking.
+// As in the shader, rays are traced backwards from the camera: the light
+// arriving there reversed, which is a geodesic of the hole spinning the
+// other way with L negated, so it is integrated with spin −a and constants
+// (−L/E, Q/E²). Its azimuth is the ingoing φ̃ (dφ̃ = dφ + a/Δ dr), which
+// unlike φ stays finite where rays cross the horizon.
+
+import type { RayFate, TraceOptions } from "./schwarzschild";
+import { add, dot, normalize, type Vec3 } from "./vec3";
+
+export interface BoyerLindquist {
+  r: number;
+  theta: number;
+  phi: number;
+}
+
+export interface KerrRayState extends BoyerLindquist {
+  // phi is the ingoing φ̃; dr/dτ and dθ/dτ
+  rDot: number;
+  thetaDot: number;
+}
+
+// Conserved quantities per unit energy: b = L/E and Carter's Q/E²
+export interface KerrConstants {
+  b: number;
+  q: number;
+}
+
+// Conserved energy of the light a camera sees, per unit energy measured
+// there, and its b = L/E, which fix its redshift along the ray
+export interface ArrivingPhoton {
+  energy: number;
+  b: number;
+}
+
+export interface KerrTraceResult {
+  fate: RayFate;
+  steps: number;
+  // The backward ray's state and constants (those of spin −a)
+  state: KerrRayState;
+  constants: KerrConstants;
+  position: Vec3;
+  direction: Vec3;
+}
+
+// Spins are clamped just below extremal so Δ keeps two distinct roots
+const MAX_SPIN_RATIO = 0.999;
+
+export const clampSpin = (mass: number, spin: number) =>
+  Math.min(Math.max(spin, 0), MAX_SPIN_RATIO * mass);
+
+// Outer event horizon r₊ = M + √(M² − a²)
+export const horizonRadius = (mass: number, spin: number) => {
+  const a = clampSpin(mass, spin);
+  return mass + Math.sqrt(mass * mass - a * a);
+};
+
+// Innermost stable circular orbit (Bardeen, Press & Teukolsky 1972)
+export function iscoRadius(mass: number, spin: number, prograde = true) {
+  const chi = clampSpin(mass, spin) / mass;
+  const z1 =
+    1 + Math.cbrt(1 - chi * chi) * (Math.cbrt(1 + chi) + Math.cbrt(1 - chi));
+  const z2 = Math.sqrt(3 * chi * chi + z1 * z1);
+  const root = Math.sqrt((3 - z1) * (3 + z1 + 2 * z2));
+  return mass * (3 + z2 + (prograde ? -root : root));
+}
+
+// φ̃ − φ outside the horizon, ∫ a/Δ dr = a/(r₊ − r₋)·ln((r − r₊)/(r − r₋))
+export function ingoingAzimuthShift(r: number, mass: number, spin: number) {
+  const a = clampSpin(mass, spin);
+  if (a === 0) return 0;
+  const outer = horizonRadius(mass, a);
+  const inner = 2 * mass - outer;
+  return (a / (outer - inner)) * Math.log((r - outer) / (r - inner));
+}
+
+// Radius of the equatorial circular photon orbit
+export function photonOrbitRadius(mass: number, spin: number, prograde = true) {
+  const chi = clampSpin(mass, spin) / mass;
+  return 2 * mass * (1 + Math.cos((2 / 3) * Math.acos(prograde ? -chi : chi)));
+}
+
+export function toCartesian({ r, theta, phi }: BoyerLindquist, spin: number) {
+  const rho = Math.sqrt(r * r + spin * spin);
+  return [
+    rho * Math.sin(theta) * Math.cos(phi),
+    r * Math.cos(theta),
+    rho * Math.sin(theta) * Math.sin(phi),
+  ] as Vec3;
+}
+
+export function fromCartesian(p: Vec3, spin: number): BoyerLindquist {
+  const a2 = spin * spin;
+  const w = dot(p, p) - a2;
+  const r = Math.sqrt(0.5 * (w + Math.sqrt(w * w + 4 * a2 * p[1] * p[1])));
+  return {
+    r,
+    theta: Math.acos(Math.min(1, Math.max(-1, p[1] / r))),
+    phi: Math.atan2(p[2], p[0]),
+  };
+}
+
+// Scene directions of increasing r, θ and φ at a point, the axes of a
+// zero-angular-momentum observer there
+export function localDirections(
+  { r, theta, phi }: BoyerLindquist,
+  spin: number
+): [Vec3, Vec3, Vec3] {
+  const sinT = Math.sin(theta);
+  const cosT = Math.cos(theta);
+  const rho = Math.sqrt(r * r + spin * spin);
+  return [
+    normalize([
+      (r / rho) * sinT * Math.cos(phi),
+      cosT,
+      (r / rho) * sinT * Math.sin(phi),
+    ]),
+    normalize([
+      rho * cosT * Math.cos(phi),
+      -r * sinT,
+      rho * cosT * Math.sin(phi),
+    ]),
+    [-Math.sin(phi), 0, Math.cos(phi)],
+  ];
+}
+
+// Build the Mino-time state and constants of motion for the ray traced back
+// from `position` along `direction`: the light a zero-angular-momentum
+// observer (ZAMO) there sees in that direction, reversed. Mirrors
+// zamoPhoton and kerrBackwardRay in the shader.
+export function initialConditions(
+  position: Vec3,
+  direction: Vec3,
+  mass: number,
+  spin: number
+) {
+  const a = clampSpin(mass, spin);
+  const { r, theta, phi } = fromCartesian(position, a);
+  const sinT = Math.sin(theta);
+  const cosT = Math.cos(theta);
+
+  const sigma = r * r + a * a * cosT * cosT;
+  const delta = r * r - 2 * mass * r + a * a;
+  const bigA = (r * r + a * a) ** 2 - a * a * delta * sinT * sinT;
+  const lapse = Math.sqrt((sigma * delta) / bigA);
+  const frameDragging = (2 * mass * a * r) / bigA;
+  const cylindricalRadius = Math.sqrt(bigA / sigma) * sinT;
+
+  const [eR, eTheta, ePhi] = localDirections({ r, theta, phi }, a);
+
+  const n = normalize(direction);
+  const nR = dot(n, eR);
+  const nTheta = dot(n, eTheta);
+  const nPhi = dot(n, ePhi);
+
+  // Covariant momenta of the arriving light, which travels along −n, for
+  // unit locally measured energy, rescaled to E = 1
+  const angularMomentum = -cylindricalRadius * nPhi;
+  const energy = lapse + frameDragging * angularMomentum;
+  const b = angularMomentum / energy;
+  const pR = (-Math.sqrt(sigma / delta) * nR) / energy;
+  const pTheta = (-Math.sqrt(sigma) * nTheta) / energy;
+  const q = pTheta * pTheta + cosT * cosT * ((b * b) / (sinT * sinT) - a * a);
+
+  // Reversed: every velocity flips, and so does b with the spin
+  const state: KerrRayState = {
+    r,
+    theta,
+    phi: phi + ingoingAzimuthShift(r, mass, a),
+    rDot: -delta * pR,
+    thetaDot: -pTheta,
+  };
+
+  return {
+    state,
+    constants: { b: -b, q } as KerrConstants,
+    arriving: { energy, b } as ArrivingPhoton,
+  };
+}
+
+// Radial potential R(r); (dr/dτ)² = R along any null geodesic
+export function radialPotential(
+  r: number,
+  { b, q }: KerrConstants,
+  mass: number,
+  spin: number
+) {
+  const delta = r * r - 2 * mass * r + spin * spin;
+  const p = r * r + spin * spin - spin * b;
+  return p * p - delta * ((b - spin) ** 2 + q);
+}
+
+// Polar potential Θ(θ); (dθ/dτ)² = Θ along any null geodesic
+export function polarPotential(
+  theta: number,
+  { b, q }: KerrConstants,
+  spin: number
+) {
+  const cosT = Math.cos(theta);
+  const sinT = Math.sin(theta);
+  return q + spin * spin * cosT * cosT - (b * b * cosT * cosT) / (sinT * sinT);
+}
+
+// dφ̃/dτ = a(P − dr/dτ)/Δ − a + b/sin²θ for the reversed ray (spin a here
+// being minus the hole's); outgoing, (P − dr/dτ)/Δ is written K/(P + dr/dτ)
+// so it stays finite through the horizon
+export function derivatives(
+  { r, theta, rDot, thetaDot }: KerrRayState,
+  { b, q }: KerrConstants,
+  mass: number,
+  spin: number
+): KerrRayState {
+  const a = spin;
+  const sinT = Math.max(Math.abs(Math.sin(theta)), 1e-6);
+  const cosT = Math.cos(theta);
+  const delta = r * r - 2 * mass * r + a * a;
+  const p = r * r + a * a - a * b;
+  const k = (b - a) ** 2 + q;
+  const ingoing = rDot > 0 ? k / (p + rDot) : (p - rDot) / delta;
+
+  return {
+    r: rDot,
+    theta: thetaDot,
+    phi: a * ingoing - a + b / (sinT * sinT),
+    rDot: 2 * r * p - (r - mass) * k,
+    thetaDot: -a * a * cosT * sinT + (b * b * cosT) / (sinT * sinT * sinT),
+  };
+}
+
+const KEYS = ["r", "theta", "phi", "rDot", "thetaDot"] as const;
+
+const offset = (
+  s: KerrRayState,
+  d: KerrRayState,
+  scale: number
+): KerrRayState => ({
+  r: s.r + d.r * scale,
+  theta: s.theta + d.theta * scale,
+  phi: s.phi + d.phi * scale,
+  rDot: s.rDot + d.rDot * scale,
+  thetaDot: s.thetaDot + d.thetaDot * scale,
+});
+
+// One classical RK4 step in Mino time
+export function rk4Step(
+  state: KerrRayState,
+  constants: KerrConstants,
+  mass: number,
+  spin: number,
+  dTau: number
+): KerrRayState {
+  const k1 = derivatives(state, constants, mass, spin);
+  const k2 = derivatives(offset(state, k1, dTau * 0.5), constants, mass, spin);
+  const k3 = derivatives(offset(state, k2, dTau * 0.5), constants, mass, spin);
+  const k4 = derivatives(offset(state, k3, dTau), constants, mass, spin);
+
+  const next = { ...state };
+  for (const key of KEYS) {
+    next[key] += (dTau / 6) * (k1[key] + 2 * k2[key] + 2 * k3[key] + k4[key]);
+  }
+
+  // The second-order form does not enforce (dr/dτ)² = R and (dθ/dτ)² = Θ,
+  // and far-field truncation error would otherwise swamp the much smaller
+  // potentials near the hole. Project back onto the constraint, keeping the
+  // integrated sign so turning points are still crossed naturally.
+  const radial = radialPotential(next.r, constants, mass, spin);
+  const polar = polarPotential(next.theta, constants, spin);
+  next.rDot = Math.sign(next.rDot) * Math.sqrt(Math.max(radial, 0));
+  next.thetaDot = Math.sign(next.thetaDot) * Math.sqrt(Math.max(polar, 0));
+  return next;
+}
+
+// Scene position of a ray state, laid out in Boyer–Lindquist φ
+export const scenePosition = (
+  state: KerrRayState,
+  mass: number,
+  spin: number
+) =>
+  toCartesian(
+    { ...state, phi: state.phi - ingoingAzimuthShift(state.r, mass, spin) },
+    spin
+  );
+
+// Trace the ray a camera at `origin` sees in `direction` back through the
+// Kerr spacetime. Mirrors the stepping rule used by the shader: a spatial
+// step proportional to r, converted to Mino time.
+export function traceRay(
+  origin: Vec3,
+  direction: Vec3,
+  mass: number,
+  spin: number,
+  {
+    maxDistance = 100,
+    maxSteps = 10000,
+    stepFactor = 0.05,
+    minStep = 0.05,
+  }: TraceOptions = {}
+): KerrTraceResult {
+  const a = clampSpin(mass, spin);
+  const horizon = horizonRadius(mass, a) * 1.01;
+  let { state, constants } = initialConditions(origin, direction, mass, a);
+  let position = scenePosition(state, mass, a);
+  let heading = normalize(direction);
+
+  for (let steps = 0; steps < maxSteps; steps++) {
+    const result = { state, constants, position, direction: heading, steps };
+
+    if (state.r <= horizon && state.rDot <= 0) {
+      return { ...result, fate: "horizon" };
+    }
+
+    if (state.r > maxDistance && state.rDot > 0) {
+      return { ...result, fate: "escaped" };
+    }
+
+    const sigma = state.r ** 2 + (a * Math.cos(state.theta)) ** 2;
+    const stepLength = Math.max(state.r * stepFactor, minStep);
+    // Keeping the change in r to a tenth of r where it runs fast
+    const dTau = Math.min(
+      stepLength / sigma,
+      (0.1 * state.r) / Math.max(Math.abs(state.rDot), 1e-6)
+    );
+    state = rk4Step(state, constants, mass, -a, dTau);
+
+    const next = scenePosition(state, mass, a);
+    heading = normalize(add(next, position, -1));
+    position = next;
+  }
+
+  return {
+    fate: "maxSteps",
+    steps: maxSteps,
+    state,
+    constants,
+    position,
+    direction: heading,
+  };
+}
+
+// Analytic outline of the shadow on a distant observer's sky (Bardeen 1973)
+// as [α, β] pairs, with α > 0 on the side of the hole receding from the
+// observer. `inclination` is the observer's polar angle from the spin axis.
+export function shadowBoundary(
+  mass: number,
+  spin: number,
+  inclination: number,
+  samples = 256
+): [number, number][] {
+  const a = clampSpin(mass, spin);
+  const points: [number, number][] = [];
+
+  if (a < 1e-6) {
+    const radius = Math.sqrt(27) * mass;
+    for (let i = 0; i < samples; i++) {
+      const t = (2 * Math.PI * i) / samples;
+      points.push([radius * Math.cos(t), radius * Math.sin(t)]);
+    }
+    return points;
+  }
+
+  const rMin = photonOrbitRadius(mass, a, true);
+  const rMax = photonOrbitRadius(mass, a, false);
+  const sinI = Math.sin(inclination);
+  const cosI = Math.cos(inclination);
+  const upper: [number, number][] = [];
+  const lower: [number, number][] = [];
+
+  for (let i = 0; i <= samples; i++) {
+    const r = rMin + ((rMax - rMin) * i) / samples;
+    const delta = r * r - 2 * mass * r + a * a;
+    const xi = (mass * (r * r - a * a) - r * delta) / (a * (r - mass));
+    const eta =
+      (r ** 3 * (4 * mass * delta - r * (r - mass) ** 2)) /
+      (a * a * (r - mass) ** 2);
+    const beta2 =
+      eta + a * a * cosI * cosI - (xi * xi * cosI * cosI) / (sinI * sinI);
+
+    if (beta2 < 0) continue;
+
+    const alpha = -xi / sinI;
+    upper.push([alpha, Math.sqrt(beta2)]);
+    lower.push([alpha, -Math.sqrt(beta2)]);
+  }
+
+  return points.concat(upper, lower.reverse());
+}
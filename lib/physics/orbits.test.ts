@@ -0,0 +1,104 @@
+import { describe, expect, it } from "vitest";
+import { horizonRadius } from "./kerr";
+import {
+  createCircularOrbit,
+  createOrbitPropagator,
+  isStableUnderPrecession,
+  minimumStablePeriapsis,
+  type OrbitalElements,
+} from "./orbits";
+import { length } from "./vec3";
+
+const orbit = (elements: Partial<OrbitalElements>): OrbitalElements => ({
+  semiMajorAxis: 30,
+  eccentricity: 0,
+  inclination: 0,
+  ascendingNode: 0,
+  argumentOfPeriapsis: 0,
+  meanAnomaly: 0,
+  ...elements,
+});
+
+// Smallest and largest radius over a few turns with precession on
+const radialRange = (elements: OrbitalElements, spin = 0) => {
+  const propagate = createOrbitPropagator(
+    elements,
+    1,
+    true,
+    horizonRadius(1, spin)
+  );
+  let [inner, outer] = [Infinity, 0];
+  let captured = false;
+  for (let time = 0; time <= 10000; time += 2) {
+    const sample = propagate(time);
+    const r = length(sample.position);
+    [inner, outer] = [Math.min(inner, r), Math.max(outer, r)];
+    captured ||= sample.captured;
+  }
+  return { inner, outer, captured };
+};
+
+describe("createOrbitPropagator with precession", () => {
+  it("keeps an eccentric orbit's periapsis and apoapsis", () => {
+    const { inner, outer } = radialRange(
+      orbit({ eccentricity: 0.1, meanAnomaly: Math.PI })
+    );
+    expect(inner).toBeCloseTo(27, 1);
+    expect(outer).toBeCloseTo(33, 1);
+  });
+
+  it("keeps a circular orbit at its radius", () => {
+    const { inner, outer } = radialRange(orbit({}));
+    expect(inner).toBeCloseTo(30, 1);
+    expect(outer).toBeCloseTo(30, 1);
+  });
+
+  // The integrator is blind to spin, which only moves the capture radius
+  it("keeps an inclined circle at 12M whatever the hole's spin", () => {
+    const inclined = orbit({ semiMajorAxis: 12, inclination: 0.7 });
+    const spinning = radialRange(inclined, 0.5);
+    expect(spinning.captured).toBe(false);
+    expect(spinning.inner).toBeCloseTo(12, 1);
+    expect(spinning.outer).toBeCloseTo(12, 1);
+    expect(spinning).toEqual(radialRange(inclined, 0));
+  });
+
+  it("plunges from inside the innermost stable orbit", () => {
+    const elements = orbit({ semiMajorAxis: 5.9 });
+    expect(isStableUnderPrecession(elements, 1)).toBe(false);
+    expect(radialRange(elements).captured).toBe(true);
+  });
+});
+
+describe("minimumStablePeriapsis", () => {
+  it("is 6M for a circle and falls towards 4M as e → 1", () => {
+    expect(minimumStablePeriapsis(0, 1)).toBe(6);
+    expect(minimumStablePeriapsis(0.5, 2)).toBeCloseTo(28 / 3);
+    expect(minimumStablePeriapsis(0.999, 1)).toBeCloseTo(4, 2);
+  });
+});
+
+describe("createCircularOrbit", () => {
+  // Ω = √M / (r^(3/2) ± a√M) on a Kerr circle, so spin slows a prograde
+  // orbit and speeds up a retrograde one
+  it.each([
+    [0, 0],
+    [0.9, 0],
+    [0.9, Math.PI],
+  ])(
+    "turns at the Kerr rate for a = %s, inclination %s",
+    (spin, inclination) => {
+      const prograde = inclination === 0;
+      const sample = createCircularOrbit(
+        orbit({ semiMajorAxis: 10, inclination }),
+        1,
+        spin
+      );
+      const [x, y, z] = sample(10).position;
+      const omega =
+        (prograde ? 1 : -1) / (10 ** 1.5 + (prograde ? spin : -spin));
+      expect(y).toBeCloseTo(0, 12);
+      expect(Math.atan2(z, x)).toBeCloseTo(10 * omega, 9);
+    }
+  );
+});
@@ -0,0 +1,294 @@
+// Orbits of the planets around the hole. Bodies move under Newtonian
+// gravity, optionally with the leading Schwarzschild correction
+//   a = −(M/r²)(1 + 3h²/r²) r̂,   h = |x × v|,
+// whose radial equation is exactly that of a Schwarzschild geodesic in
+// proper time: the periapsis advances by 6πM/(a(1 − e²)) per orbit and no
+// stable orbit exists inside r = 6M. Such orbits start with the energy and
+// angular momentum of the corrected force (precessingState), so they keep
+// the configured periapsis and apoapsis.
+// Geometric units (G = c = 1) as in ./schwarzschild. The disk lies in the
+// xz plane and turns from +x towards +z, so an orbit with zero inclination
+// goes round the same way.
+
+import { clampSpin, horizonRadius, toCartesian } from "./kerr";
+import { keplerianAngularVelocity } from "./redshift";
+import { add, cross, dot, length, normalize, type Vec3 } from "./vec3";
+
+export interface OrbitalElements {
+  semiMajorAxis: number;
+  eccentricity: number;
+  // Angles in radians: inclination to the disk plane, longitude of the
+  // ascending node (from +x), argument of periapsis, and the mean anomaly
+  // at time zero
+  inclination: number;
+  ascendingNode: number;
+  argumentOfPeriapsis: number;
+  meanAnomaly: number;
+}
+
+export interface OrbitState {
+  position: Vec3;
+  velocity: Vec3;
+}
+
+export interface OrbitSample extends OrbitState {
+  // Whether the body has fallen through the capture radius
+  captured: boolean;
+}
+
+// Integration step in geometric time units, small enough for orbits down
+// to the ISCO to close to well under a pixel per revolution
+export const ORBIT_STEP = 0.25;
+
+export const periapsisRadius = ({
+  semiMajorAxis,
+  eccentricity,
+}: OrbitalElements) => semiMajorAxis * (1 - eccentricity);
+
+// Eccentric anomaly E from the mean anomaly M = E − e·sin E, by Newton's
+// method from E = M (or π for very eccentric orbits)
+export function eccentricAnomaly(meanAnomaly: number, eccentricity: number) {
+  const m = meanAnomaly % (2 * Math.PI);
+  let anomaly = eccentricity > 0.8 ? Math.PI : m;
+  for (let i = 0; i < 50; i++) {
+    const delta =
+      (anomaly - eccentricity * Math.sin(anomaly) - m) /
+      (1 - eccentricity * Math.cos(anomaly));
+    anomaly -= delta;
+    if (Math.abs(delta) < 1e-12) break;
+  }
+  return anomaly;
+}
+
+// Position and velocity of a Kepler orbit around `mass` at its mean anomaly.
+// The textbook frame (reference plane xy, angular momentum along +z for a
+// direct orbit) is mapped onto the scene as x → x, y → z, z → −y.
+export function keplerState(
+  elements: OrbitalElements,
+  mass: number
+): OrbitState {
+  const {
+    semiMajorAxis: a,
+    eccentricity: e,
+    inclination,
+    ascendingNode,
+    argumentOfPeriapsis,
+  } = elements;
+  const anomaly = eccentricAnomaly(elements.meanAnomaly, e);
+  const cosE = Math.cos(anomaly);
+  const sinE = Math.sin(anomaly);
+  const semiMinor = Math.sqrt(1 - e * e);
+
+  // In the orbital plane, with periapsis along the first axis
+  const r = a * (1 - e * cosE);
+  const speed = Math.sqrt(mass * a) / r;
+  const planePosition = [a * (cosE - e), a * semiMinor * sinE];
+  const planeVelocity = [-speed * sinE, speed * semiMinor * cosE];
+
+  const [cosO, sinO] = [Math.cos(ascendingNode), Math.sin(ascendingNode)];
+  const [cosW, sinW] = [
+    Math.cos(argumentOfPeriapsis),
+    Math.sin(argumentOfPeriapsis),
+  ];
+  const [cosI, sinI] = [Math.cos(inclination), Math.sin(inclination)];
+  const p: Vec3 = [
+    cosO * cosW - sinO * sinW * cosI,
+    sinO * cosW + cosO * sinW * cosI,
+    sinW * sinI,
+  ];
+  const q: Vec3 = [
+    -cosO * sinW - sinO * cosW * cosI,
+    -sinO * sinW + cosO * cosW * cosI,
+    cosW * sinI,
+  ];
+  const toScene = ([u, v]: number[]): Vec3 => {
+    const [x, y, z] = add(add([0, 0, 0], p, u), q, v);
+    return [x, -z, y];
+  };
+
+  return {
+    position: toScene(planePosition),
+    velocity: toScene(planeVelocity),
+  };
+}
+
+// Smallest periapsis of a stable orbit of eccentricity e under the corrected
+// force, from the Schwarzschild separatrix p = (6 + 2e)M on the semi-latus
+// rectum p = a(1 − e²). Orbits reaching further in plunge.
+export const minimumStablePeriapsis = (eccentricity: number, mass: number) =>
+  ((6 + 2 * eccentricity) * mass) / (1 + eccentricity);
+
+export const isStableUnderPrecession = (
+  elements: OrbitalElements,
+  mass: number
+) =>
+  periapsisRadius(elements) >
+  minimumStablePeriapsis(elements.eccentricity, mass);
+
+// Effective potential per unit mass of the corrected force,
+// V(r) = −M/r + h²/2r² − Mh²/r³
+const effectivePotential = (r: number, h2: number, mass: number) =>
+  -mass / r + h2 / (2 * r * r) - (mass * h2) / (r * r * r);
+
+// Starting state under the corrected force. Periapsis and apoapsis are both
+// turning points, V(a(1 − e)) = V(a(1 + e)), which fixes
+//   h² = Mp² / (p − (3 + e²)M),
+// the angular momentum of the Schwarzschild geodesic, and the energy is V
+// at periapsis. The body starts at its Kepler position for the mean
+// anomaly, moving the same way in and round. Only stable orbits
+// (isStableUnderPrecession) have such a state.
+export function precessingState(
+  elements: OrbitalElements,
+  mass: number
+): OrbitState {
+  const { semiMajorAxis: a, eccentricity: e } = elements;
+  const kepler = keplerState(elements, mass);
+  const p = a * (1 - e * e);
+  const h2 = (mass * p * p) / (p - (3 + e * e) * mass);
+  const energy = effectivePotential(periapsisRadius(elements), h2, mass);
+
+  const r = length(kepler.position);
+  const outward = normalize(kepler.position);
+  const keplerRadial = dot(kepler.velocity, outward);
+  const along = normalize(add(kepler.velocity, outward, -keplerRadial));
+  const radialSpeed =
+    Math.sign(keplerRadial) *
+    Math.sqrt(Math.max(0, 2 * (energy - effectivePotential(r, h2, mass))));
+
+  return {
+    position: kepler.position,
+    velocity: add(
+      add([0, 0, 0], outward, radialSpeed),
+      along,
+      Math.sqrt(h2) / r
+    ),
+  };
+}
+
+// Gravitational acceleration, with the Schwarzschild term when `precession`
+// is set. h2 is the conserved |x × v|².
+export function orbitAcceleration(
+  position: Vec3,
+  h2: number,
+  mass: number,
+  precession: boolean
+): Vec3 {
+  const r2 = dot(position, position);
+  const correction = precession ? 1 + (3 * h2) / r2 : 1;
+  const k = (-mass * correction) / (r2 * Math.sqrt(r2));
+  return [position[0] * k, position[1] * k, position[2] * k];
+}
+
+// One kick–drift–kick leapfrog step. Being symplectic it keeps the orbit's
+// energy bounded, so ellipses neither spiral in nor out over many turns.
+export function leapfrogStep(
+  { position, velocity }: OrbitState,
+  h2: number,
+  mass: number,
+  precession: boolean,
+  dt: number
+): OrbitState {
+  const halfKick = add(
+    velocity,
+    orbitAcceleration(position, h2, mass, precession),
+    dt / 2
+  );
+  const drifted = add(position, halfKick, dt);
+  return {
+    position: drifted,
+    velocity: add(
+      halfKick,
+      orbitAcceleration(drifted, h2, mass, precession),
+      dt / 2
+    ),
+  };
+}
+
+// Samples an orbit at any time (geometric units) by integrating from time
+// zero in fixed steps of ORBIT_STEP and interpolating between them, so the
+// path is the same whatever the frame rate. Moving forward continues from
+// the last step; moving back starts again from the elements. Bodies stop
+// once they come within captureRadius of the centre. An unstable orbit under
+// precession keeps its Newtonian start, and plunges.
+export function createOrbitPropagator(
+  elements: OrbitalElements,
+  mass: number,
+  precession: boolean,
+  captureRadius: number
+) {
+  const initial =
+    precession && isStableUnderPrecession(elements, mass)
+      ? precessingState(elements, mass)
+      : keplerState(elements, mass);
+  const h = cross(initial.position, initial.velocity);
+  const h2 = dot(h, h);
+  const advance = (state: OrbitState) =>
+    leapfrogStep(state, h2, mass, precession, ORBIT_STEP);
+
+  let step = 0;
+  let current = initial;
+  let next = advance(initial);
+  let captured = length(initial.position) <= captureRadius;
+
+  return (time: number): OrbitSample => {
+    const target = Math.max(time, 0) / ORBIT_STEP;
+    if (target < step) {
+      step = 0;
+      current = initial;
+      next = advance(initial);
+      captured = length(initial.position) <= captureRadius;
+    }
+
+    while (!captured && step + 1 <= target) {
+      step++;
+      current = next;
+      next = advance(current);
+      captured = length(current.position) <= captureRadius;
+    }
+
+    if (captured) return { ...current, captured };
+    const t = Math.min(target - step, 1);
+    const lerp = (from: Vec3, to: Vec3) => add(from, add(to, from, -1), t);
+    return {
+      position: lerp(current.position, next.position),
+      velocity: lerp(current.velocity, next.velocity),
+      captured,
+    };
+  };
+}
+
+// Whether an orbit is a circle in the disk plane, turning either way
+export const isEquatorialCircle = ({
+  eccentricity,
+  inclination,
+}: OrbitalElements) =>
+  eccentricity === 0 && Math.abs(Math.sin(inclination)) < 1e-9;
+
+// An equatorial circular orbit followed exactly, as a Kerr geodesic at
+// Boyer–Lindquist radius semiMajorAxis. Close to a spinning hole, where the
+// integrator's spin-blind correction would have the body plunge, this is
+// the orbit that stays. Same sampler interface as createOrbitPropagator.
+export function createCircularOrbit(
+  elements: OrbitalElements,
+  mass: number,
+  spin: number
+) {
+  const a = clampSpin(mass, spin);
+  const r = elements.semiMajorAxis;
+  const prograde = Math.cos(elements.inclination) > 0;
+  const omega = keplerianAngularVelocity(mass, a, r, prograde);
+  const [x, , z] = keplerState(elements, mass).position;
+  const startAngle = Math.atan2(z, x);
+  const captured = r <= horizonRadius(mass, spin);
+
+  return (time: number): OrbitSample => {
+    const phi = startAngle + omega * Math.max(time, 0);
+    const position = toCartesian({ r, theta: Math.PI / 2, phi }, a);
+    const speed = omega * Math.hypot(position[0], position[2]);
+    return {
+      position,
+      velocity: [-speed * Math.sin(phi), 0, speed * Math.cos(phi)],
+      captured,
+    };
+  };
+}
@@ -0,0 +1,38 @@
+import { describe, expect, it } from "vitest";
+import { diskRedshift } from "./redshift";
+
+describe("diskRedshift", () => {
+  it("is the static observer's √(1 − 2M/r) without orbital Doppler", () => {
+    for (const r of [4, 6, 20]) {
+      expect(diskRedshift(1, 0, r, 1, 4, { dopplerScale: 0 })).toBeCloseTo(
+        Math.sqrt(1 - 2 / r),
+        12
+      );
+    }
+  });
+
+  it("is √(1 − 3M/r) for face-on light from the Schwarzschild ISCO", () => {
+    // Face on, the light carries no angular momentum: only gravity and the
+    // orbit's time dilation remain
+    expect(diskRedshift(1, 0, 6, 1, 0)).toBeCloseTo(Math.SQRT1_2, 12);
+    expect(diskRedshift(2, 0, 12, 1, 0)).toBeCloseTo(Math.SQRT1_2, 12);
+  });
+
+  it("blueshifts the approaching side and redshifts the receding one", () => {
+    // Nearly edge on, light from either side of the disk at 10M leaves
+    // with b of about ±r
+    const approaching = diskRedshift(1, 0, 10, 1, 9);
+    const receding = diskRedshift(1, 0, 10, 1, -9);
+    expect(approaching).toBeGreaterThan(1);
+    expect(receding).toBeLessThan(1);
+    // By 1/(u^t (1 − Ωb)), Ω = √(M/r³)
+    const ut = 1 / Math.sqrt(0.7);
+    const omega = 10 ** -1.5;
+    expect(approaching).toBeCloseTo(1 / (ut * (1 - 9 * omega)), 12);
+    expect(receding).toBeCloseTo(1 / (ut * (1 + 9 * omega)), 12);
+  });
+
+  it("turns the approaching side over for a retrograde disk", () => {
+    expect(diskRedshift(1, 0.5, 10, 1, 9, { prograde: false })).toBeLessThan(1);
+  });
+});
@@ -0,0 +1,97 @@
+// Frequency shift of light from the accretion disk, the CPU version of
+// `diskRedshift` in lib/shaders/chunks/relativity.glsl. Geometric units,
+// spin a along +y, equatorial plane only.
+//
+// g = ν_observed / ν_emitted = (p·u)_observer / (p·u)_emitter. With the
+// photon's conserved energy E and axial angular momentum L = bE, an emitter
+// on a circular orbit with angular velocity Ω measures E·uᵗ·(1 − Ωb).
+
+import { clampSpin } from "./kerr";
+
+// Angular velocity dφ/dt of a circular equatorial geodesic at
+// Boyer–Lindquist radius r (Bardeen, Press & Teukolsky 1972)
+export function keplerianAngularVelocity(
+  mass: number,
+  spin: number,
+  r: number,
+  prograde = true
+) {
+  const a = clampSpin(mass, spin);
+  const direction = prograde ? 1 : -1;
+  return (
+    (direction * Math.sqrt(mass)) / (r ** 1.5 + direction * a * Math.sqrt(mass))
+  );
+}
+
+// Equatorial components of the Kerr metric in Boyer–Lindquist coordinates
+function equatorialMetric(mass: number, a: number, r: number) {
+  return {
+    tt: -(1 - (2 * mass) / r),
+    tPhi: (-2 * mass * a) / r,
+    phiPhi: r * r + a * a + (2 * mass * a * a) / r,
+  };
+}
+
+// uᵗ = dt/dτ of an equatorial orbit with angular velocity omega
+export function timeComponent(
+  mass: number,
+  a: number,
+  r: number,
+  omega: number
+) {
+  const g = equatorialMetric(mass, a, r);
+  const norm = -(g.tt + 2 * omega * g.tPhi + omega * omega * g.phiPhi);
+  if (norm <= 0) {
+    throw new Error(`No timelike orbit with Ω = ${omega} at r = ${r}`);
+  }
+  return 1 / Math.sqrt(norm);
+}
+
+// Velocity of a circular equatorial orbit at radius r along increasing φ,
+// relative to the zero-angular-momentum observer there: v = (Ω − ω)·√g_φφ / α,
+// √(M/(r − 2M)) around a non-spinning hole and negative for retrograde
+// orbits. Its size is 1 or more inside the photon orbit, where there is no
+// such orbit.
+export function circularOrbitSpeed(
+  mass: number,
+  spin: number,
+  r: number,
+  prograde = true
+) {
+  const a = clampSpin(mass, spin);
+  const g = equatorialMetric(mass, a, r);
+  const zamoOmega = -g.tPhi / g.phiPhi;
+  const lapse = Math.sqrt((g.tPhi * g.tPhi) / g.phiPhi - g.tt);
+  const omega = keplerianAngularVelocity(mass, a, r, prograde);
+  return ((omega - zamoOmega) * Math.sqrt(g.phiPhi)) / lapse;
+}
+
+export type RedshiftOptions = {
+  prograde?: boolean;
+  // Fraction of the orbital Doppler factor applied: 0 leaves only the
+  // gravitational and frame-dragging shift, 1 is physical
+  dopplerScale?: number;
+};
+
+// g for light leaving gas on a circular orbit at radius r. energy and b
+// describe the photon per unit energy measured by the observer.
+export function diskRedshift(
+  mass: number,
+  spin: number,
+  r: number,
+  energy: number,
+  b: number,
+  { prograde = true, dopplerScale = 1 }: RedshiftOptions = {}
+) {
+  const a = clampSpin(mass, spin);
+  const omega = keplerianAngularVelocity(mass, a, r, prograde);
+  const g = 1 / (energy * timeComponent(mass, a, r, omega) * (1 - omega * b));
+
+  // The same light as seen by a zero-angular-momentum observer at r
+  const metric = equatorialMetric(mass, a, r);
+  const zamoOmega = -metric.tPhi / metric.phiPhi;
+  const zamoG =
+    1 / (energy * timeComponent(mass, a, r, zamoOmega) * (1 - zamoOmega * b));
+
+  return zamoG * (g / zamoG) ** dopplerScale;
+}
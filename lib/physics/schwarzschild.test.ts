@@ -0,0 +1,30 @@
+import { describe, expect, it } from "vitest";
+import {
+  deflectionAngle,
+  shadowRadius,
+  weakFieldDeflection,
+} from "./schwarzschild";
+
+describe("deflectionAngle", () => {
+  // The next order adds 15π/16·M/b, so the agreement is a few percent at
+  // 50M and improves as M/b
+  it.each([50, 100, 200, 500])(
+    "bends a ray passing at b = %iM by about 4M/b",
+    (impactParameter) => {
+      const ratio =
+        deflectionAngle(impactParameter, 1) /
+        weakFieldDeflection(impactParameter, 1);
+      expect(Math.abs(ratio - 1)).toBeLessThan(3.5 / impactParameter);
+    }
+  );
+
+  it("scales with the mass", () => {
+    expect(deflectionAngle(100, 2)).toBeCloseTo(deflectionAngle(50, 1), 6);
+  });
+
+  it("captures rays inside the shadow radius √27·M", () => {
+    expect(deflectionAngle(0.99 * shadowRadius(1), 1)).toBe(Infinity);
+    expect(deflectionAngle(0.5 * shadowRadius(1), 1)).toBe(Infinity);
+    expect(deflectionAngle(1.01 * shadowRadius(1), 1)).toBeLessThan(Infinity);
+  });
+});
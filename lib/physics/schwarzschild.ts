@@ -0,0 +1,151 @@
+// CPU reference for the Schwarzschild ray marcher, whose GLSL lives in
+// lib/shaders/chunks/relativity.glsl.
+// Geometric units (G = c = 1): lengths are measured in the same units as the
+// `blackHoleMass` uniform, so the horizon sits at r = 2M.
+
+import { add, cross, dot, length, normalize, type Vec3 } from "./vec3";
+
+export type RayFate = "horizon" | "escaped" | "maxSteps";
+
+export interface RayState {
+  position: Vec3;
+  velocity: Vec3;
+}
+
+export interface TraceOptions {
+  // Rays moving outward beyond this radius are considered escaped
+  maxDistance?: number;
+  maxSteps?: number;
+  // Step length as a fraction of the current radius
+  stepFactor?: number;
+  minStep?: number;
+}
+
+export interface TraceResult extends RayState {
+  fate: RayFate;
+  steps: number;
+  // Total angle the direction of travel has turned through, unwrapped
+  turnAngle: number;
+}
+
+export const schwarzschildRadius = (mass: number) => 2 * mass;
+
+export const photonSphereRadius = (mass: number) => 3 * mass;
+
+// Critical impact parameter: the apparent radius of the shadow seen from
+// infinity, b_c = √27·M
+export const shadowRadius = (mass: number) => Math.sqrt(27) * mass;
+
+// Analytic weak-field (b ≫ M) light bending angle
+export const weakFieldDeflection = (impactParameter: number, mass: number) =>
+  (4 * mass) / impactParameter;
+
+// Which image of the scene a ray shows: 0 for the direct image, n once it
+// has turned through n half-orbits around the photon sphere
+export const imageOrder = (turnAngle: number) =>
+  Math.floor(turnAngle / Math.PI);
+
+// Squared specific angular momentum h² = |x × v|², conserved along the ray
+export const angularMomentumSquared = ({ position, velocity }: RayState) => {
+  const h = cross(position, velocity);
+  return dot(h, h);
+};
+
+// The Binet equation d²u/dφ² = 3Mu² − u written in Cartesian form within the
+// ray's orbital plane: x'' = −3M·h²·x / r⁵
+export function geodesicAcceleration(
+  position: Vec3,
+  h2: number,
+  mass: number
+): Vec3 {
+  const r2 = dot(position, position);
+  const r5 = r2 * r2 * Math.sqrt(r2);
+  const k = (-3 * mass * h2) / r5;
+  return [position[0] * k, position[1] * k, position[2] * k];
+}
+
+// One classical RK4 step of the second-order system above
+export function rk4Step(
+  { position, velocity }: RayState,
+  h2: number,
+  mass: number,
+  dt: number
+): RayState {
+  const a1 = geodesicAcceleration(position, h2, mass);
+
+  const p2 = add(position, velocity, dt * 0.5);
+  const v2 = add(velocity, a1, dt * 0.5);
+  const a2 = geodesicAcceleration(p2, h2, mass);
+
+  const p3 = add(position, v2, dt * 0.5);
+  const v3 = add(velocity, a2, dt * 0.5);
+  const a3 = geodesicAcceleration(p3, h2, mass);
+
+  const p4 = add(position, v3, dt);
+  const v4 = add(velocity, a3, dt);
+  const a4 = geodesicAcceleration(p4, h2, mass);
+
+  return {
+    position: [0, 1, 2].map(
+      (i) =>
+        position[i] + (dt / 6) * (velocity[i] + 2 * v2[i] + 2 * v3[i] + v4[i])
+    ) as Vec3,
+    velocity: [0, 1, 2].map(
+      (i) => velocity[i] + (dt / 6) * (a1[i] + 2 * a2[i] + 2 * a3[i] + a4[i])
+    ) as Vec3,
+  };
+}
+
+// Follow a photon from `origin` along `direction` until it falls through the
+// horizon or escapes. Mirrors the stepping rule used by the shader.
+export function traceRay(
+  origin: Vec3,
+  direction: Vec3,
+  mass: number,
+  {
+    maxDistance = 100,
+    maxSteps = 10000,
+    stepFactor = 0.05,
+    minStep = 0.05,
+  }: TraceOptions = {}
+): TraceResult {
+  const horizon = schwarzschildRadius(mass);
+  let state: RayState = { position: origin, velocity: normalize(direction) };
+  const h2 = angularMomentumSquared(state);
+  let turnAngle = 0;
+
+  for (let steps = 0; steps < maxSteps; steps++) {
+    const r = length(state.position);
+
+    if (r <= horizon) {
+      return { ...state, fate: "horizon", steps, turnAngle };
+    }
+
+    if (r > maxDistance && dot(state.position, state.velocity) > 0) {
+      return { ...state, fate: "escaped", steps, turnAngle };
+    }
+
+    const next = rk4Step(state, h2, mass, Math.max(r * stepFactor, minStep));
+    turnAngle += Math.atan2(
+      length(cross(state.velocity, next.velocity)),
+      dot(state.velocity, next.velocity)
+    );
+    state = next;
+  }
+
+  return { ...state, fate: "maxSteps", steps: maxSteps, turnAngle };
+}
+
+// Total bending angle for a ray with impact parameter b, launched from and
+// collected at `distance`. Returns Infinity for captured rays.
+export function deflectionAngle(
+  impactParameter: number,
+  mass: number,
+  distance = 1e5
+): number {
+  const result = traceRay([-distance, impactParameter, 0], [1, 0, 0], mass, {
+    maxDistance: distance,
+  });
+
+  return result.fate === "escaped" ? result.turnAngle : Infinity;
+}
@@ -0,0 +1,319 @@
+// The Endurance orbit: an observer on a circular orbit that may be tilted
+// to the disk plane. Around a spinning hole such orbits keep a constant
+// Boyer–Lindquist r but not a fixed plane (spherical orbits): θ swings
+// between two turning points while the plane is dragged round the spin
+// axis. Each is fixed by its radius and inclination ι, cos ι = L/√(L² + Q),
+// and found numerically from R(r) = R′(r) = 0. Geometric units, ingoing
+// coordinates and observer frame as in ./infall.
+
+import { clampSpin, horizonRadius, ingoingAzimuthShift } from "./kerr";
+import {
+  kerrSchildPosition,
+  observerFrame,
+  project,
+  rk4Step,
+  timelikePolarPotential,
+  type InfallConstants,
+  type InfallSample,
+  type InfallState,
+} from "./infall";
+import { ORBIT_STEP } from "./orbits";
+
+export interface SphericalOrbit {
+  // Boyer–Lindquist radius, after moving out to the innermost stable orbit
+  radius: number;
+  constants: InfallConstants;
+  // One turn round the spin axis, in the observer's proper time and in
+  // coordinate (far-away) time
+  properPeriod: number;
+  coordinatePeriod: number;
+}
+
+// Points of the polar cycle the periods are averaged over
+const PERIOD_SAMPLES = 256;
+
+// Steps from the equatorial orbit out to the requested inclination, each
+// solved by Newton's method from the last
+const INCLINATION_STEPS = 16;
+
+// R(r) and R′(r) for energy E and total angular momentum J = √(L² + Q)
+function radialResiduals(
+  r: number,
+  energy: number,
+  total: number,
+  cosInclination: number,
+  mass: number,
+  a: number
+) {
+  const l = total * cosInclination;
+  const carter = total * total * (1 - cosInclination * cosInclination);
+  const delta = r * r - 2 * mass * r + a * a;
+  const p = energy * (r * r + a * a) - a * l;
+  const k = r * r + (l - a * energy) ** 2 + carter;
+  return [
+    p * p - delta * k,
+    4 * energy * r * p - 2 * (r - mass) * k - 2 * r * delta,
+  ];
+}
+
+// Energy and angular momentum of the circular equatorial orbit at r
+// (Bardeen, Press & Teukolsky 1972), or null inside the photon orbit
+function equatorialConstants(
+  r: number,
+  mass: number,
+  a: number,
+  prograde: boolean
+) {
+  const s = prograde ? 1 : -1;
+  const root = Math.sqrt(mass * r);
+  const squared =
+    r ** 1.5 - 3 * mass * Math.sqrt(r) + 2 * s * a * Math.sqrt(mass);
+  if (squared <= 0) return null;
+  const denominator = r ** 0.75 * Math.sqrt(squared);
+  return {
+    energy:
+      (r ** 1.5 - 2 * mass * Math.sqrt(r) + s * a * Math.sqrt(mass)) /
+      denominator,
+    angularMomentum:
+      (s * Math.sqrt(mass) * (r * r - 2 * s * a * root + a * a)) / denominator,
+  };
+}
+
+// Constants of the spherical orbit at r with inclination ι (radians, up to
+// π/2 for either sense), or null if there is none
+export function sphericalOrbitConstants(
+  r: number,
+  inclination: number,
+  prograde: boolean,
+  mass: number,
+  a: number
+): InfallConstants | null {
+  const equatorial = equatorialConstants(r, mass, a, prograde);
+  if (!equatorial) return null;
+
+  const sense = prograde ? 1 : -1;
+  let energy = equatorial.energy;
+  let total = Math.abs(equatorial.angularMomentum);
+  let cosInclination = sense;
+
+  for (let step = 1; step <= INCLINATION_STEPS; step++) {
+    cosInclination = sense * Math.cos((inclination * step) / INCLINATION_STEPS);
+    for (let i = 0; i < 30; i++) {
+      const [f, g] = radialResiduals(r, energy, total, cosInclination, mass, a);
+      const h = 1e-7;
+      const [fE, gE] = radialResiduals(
+        r,
+        energy + h,
+        total,
+        cosInclination,
+        mass,
+        a
+      );
+      const [fJ, gJ] = radialResiduals(
+        r,
+        energy,
+        total + h,
+        cosInclination,
+        mass,
+        a
+      );
+      const [dfE, dgE, dfJ, dgJ] = [
+        (fE - f) / h,
+        (gE - g) / h,
+        (fJ - f) / h,
+        (gJ - g) / h,
+      ];
+      const determinant = dfE * dgJ - dfJ * dgE;
+      if (determinant === 0) return null;
+      const dEnergy = (f * dgJ - g * dfJ) / determinant;
+      const dTotal = (g * dfE - f * dgE) / determinant;
+      energy -= dEnergy;
+      total -= dTotal;
+      if (Math.abs(dEnergy) + Math.abs(dTotal) < 1e-12) break;
+    }
+  }
+
+  if (!Number.isFinite(energy) || !(total > 0)) return null;
+  return {
+    energy,
+    angularMomentum: total * cosInclination,
+    carter: total * total * (1 - cosInclination * cosInclination),
+  };
+}
+
+// Whether the orbit at r exists and is stable against a radial nudge,
+// R″(r) < 0, with R″ = 4EP + 8E²r² − 2K − 2Δ − 8r(r − M)
+function isStable(
+  r: number,
+  inclination: number,
+  prograde: boolean,
+  mass: number,
+  a: number
+) {
+  const constants = sphericalOrbitConstants(r, inclination, prograde, mass, a);
+  if (!constants) return false;
+  const { energy, angularMomentum: l, carter } = constants;
+  const delta = r * r - 2 * mass * r + a * a;
+  const p = energy * (r * r + a * a) - a * l;
+  const k = r * r + (l - a * energy) ** 2 + carter;
+  const curvature =
+    4 * energy * p +
+    8 * energy * energy * r * r -
+    2 * k -
+    2 * delta -
+    8 * r * (r - mass);
+  return energy < 1 && curvature < 0;
+}
+
+// Innermost stable spherical orbit for the inclination, by bisection from
+// the horizon out to well beyond the retrograde ISCO (9M)
+export function innermostStableRadius(
+  inclination: number,
+  prograde: boolean,
+  mass: number,
+  spin: number
+) {
+  const a = clampSpin(mass, spin);
+  let inner = horizonRadius(mass, a);
+  let outer = 10 * mass;
+  for (let i = 0; i < 50; i++) {
+    const middle = 0.5 * (inner + outer);
+    if (isStable(middle, inclination, prograde, mass, a)) outer = middle;
+    else inner = middle;
+  }
+  return outer;
+}
+
+// Periods from averages over the polar cycle. With z = cos²θ,
+// (dz/dλ)²/4z = β(z − z₋)(z − z₊), β = a²(1 − E²), so cos θ = √z₋·cos χ
+// turns it into dχ/dλ = √(β(z₊ − z₋cos²χ)), smooth over χ ∈ [0, 2π).
+function periods(
+  r: number,
+  { energy, angularMomentum: l, carter }: InfallConstants,
+  mass: number,
+  a: number
+) {
+  const beta = a * a * (1 - energy * energy);
+  const b = carter + l * l + beta;
+  const zMinus =
+    (2 * carter) / (b + Math.sqrt(Math.max(b * b - 4 * beta * carter, 0)));
+  const delta = r * r - 2 * mass * r + a * a;
+  const p = energy * (r * r + a * a) - a * l;
+
+  let weights = 0;
+  let tRate = 0;
+  let phiRate = 0;
+  let tauRate = 0;
+  for (let i = 0; i < PERIOD_SAMPLES; i++) {
+    const cos2 = zMinus * Math.cos((2 * Math.PI * i) / PERIOD_SAMPLES) ** 2;
+    const sin2 = 1 - cos2;
+    const weight = 1 / Math.sqrt(b - beta * zMinus - beta * cos2);
+    weights += weight;
+    tRate +=
+      weight * (((r * r + a * a) * p) / delta + a * (l - a * energy * sin2));
+    phiRate += weight * ((a * p) / delta + l / sin2 - a * energy);
+    tauRate += weight * (r * r + a * a * cos2);
+  }
+
+  // Mino time for one turn in φ, then proper and coordinate time over it
+  const turn = (2 * Math.PI * weights) / Math.abs(phiRate);
+  return {
+    properPeriod: (turn * tauRate) / weights,
+    coordinatePeriod: (turn * tRate) / weights,
+  };
+}
+
+// The orbit at `radius`, moved out to the innermost stable orbit if it
+// lies inside it, with inclination in radians
+export function sphericalOrbit(
+  radius: number,
+  inclination: number,
+  prograde: boolean,
+  mass: number,
+  spin: number
+): SphericalOrbit {
+  const a = clampSpin(mass, spin);
+  const r = Math.max(
+    radius,
+    innermostStableRadius(inclination, prograde, mass, a)
+  );
+  const constants = sphericalOrbitConstants(
+    r,
+    inclination,
+    prograde,
+    mass,
+    a
+  ) as InfallConstants;
+  return { radius: r, constants, ...periods(r, constants, mass, a) };
+}
+
+// Samples the orbit at any proper time, stepping by ORBIT_STEP and
+// interpolating like createOrbitPropagator in ./orbits. It starts crossing
+// the disk plane upwards at Boyer–Lindquist azimuth startAzimuth. Steps are
+// ORBIT_STEP of proper time for an equatorial orbit; a tilted one's vary by
+// up to a²/r² round the orbit.
+export function createSphericalOrbit(
+  { radius, constants }: SphericalOrbit,
+  startAzimuth: number,
+  mass: number,
+  spin: number
+) {
+  const a = clampSpin(mass, spin);
+  const initial: InfallState = {
+    r: radius,
+    theta: Math.PI / 2,
+    phi: startAzimuth + ingoingAzimuthShift(radius, mass, a),
+    rDot: 0,
+    // Upwards, towards +y, is decreasing θ
+    thetaDot: -Math.sqrt(
+      Math.max(timelikePolarPotential(Math.PI / 2, constants, a), 0)
+    ),
+  };
+  const advance = (state: InfallState): InfallState => {
+    const sigma = radius * radius + a * a * Math.cos(state.theta) ** 2;
+    const next = rk4Step(state, constants, mass, a, ORBIT_STEP / sigma);
+    // Held on the sphere exactly, so rounding never sets it drifting
+    return { ...next, r: radius, rDot: 0 };
+  };
+
+  let step = 0;
+  let current = initial;
+  let next = advance(initial);
+
+  return (properTime: number): InfallSample => {
+    const target = Math.max(properTime, 0) / ORBIT_STEP;
+    if (target < step) {
+      step = 0;
+      current = initial;
+      next = advance(initial);
+    }
+
+    while (step + 1 <= target) {
+      step++;
+      current = next;
+      next = advance(current);
+    }
+
+    const t = Math.min(target - step, 1);
+    const lerp = (from: number, to: number) => from + (to - from) * t;
+    const state = project(
+      {
+        r: radius,
+        theta: lerp(current.theta, next.theta),
+        phi: lerp(current.phi, next.phi),
+        rDot: 0,
+        thetaDot: lerp(current.thetaDot, next.thetaDot),
+      },
+      constants,
+      mass,
+      a
+    );
+    return {
+      state,
+      position: kerrSchildPosition(state, a),
+      frame: observerFrame(state, constants, mass, a),
+      properTime: (step + t) * ORBIT_STEP,
+      ended: false,
+    };
+  };
+}
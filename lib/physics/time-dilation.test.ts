@@ -0,0 +1,63 @@
+import { describe, expect, it } from "vitest";
+import {
+  circularOrbitTimeDilation,
+  hoveringTimeDilation,
+  weakFieldTimeDilation,
+} from "./time-dilation";
+
+describe("circularOrbitTimeDilation", () => {
+  it("is √2 at the Schwarzschild ISCO", () => {
+    expect(circularOrbitTimeDilation(1, 0, 6)).toBeCloseTo(Math.SQRT2, 12);
+  });
+
+  it("scales with the mass", () => {
+    expect(circularOrbitTimeDilation(3, 0, 18)).toBeCloseTo(Math.SQRT2, 12);
+  });
+
+  it("reaches about 12.5 for Miller's planet at r = 1.2M, a = 0.999M", () => {
+    expect(circularOrbitTimeDilation(1, 0.999, 1.2)).toBeCloseTo(12.47, 2);
+  });
+
+  it("is Infinity inside the photon orbit", () => {
+    expect(circularOrbitTimeDilation(1, 0, 2.9)).toBe(Infinity);
+  });
+});
+
+describe("hoveringTimeDilation", () => {
+  it("is 1/√(1 − 2M/r) at 10M round a Schwarzschild hole", () => {
+    expect(hoveringTimeDilation(1, 0, [10, 0, 0])).toBeCloseTo(
+      1 / Math.sqrt(0.8),
+      12
+    );
+  });
+
+  it("is Infinity inside the horizon", () => {
+    expect(hoveringTimeDilation(1, 0.5, [1, 0, 0])).toBe(Infinity);
+  });
+});
+
+describe("weakFieldTimeDilation", () => {
+  // Compared on the excess over 1, which carries the physics. Spin and
+  // higher orders in M/r only enter at relative order (M/r)^(3/2).
+  it.each([50, 100, 1000, 10000])(
+    "matches the exact Kerr factors far out, at r = %iM",
+    (r) => {
+      const relativeError = (exact: number, weak: number) =>
+        Math.abs((weak - 1) / (exact - 1) - 1);
+      const tolerance = 3 / r ** 1.5;
+
+      expect(
+        relativeError(
+          circularOrbitTimeDilation(1, 0.9, r),
+          weakFieldTimeDilation(1, r, Math.sqrt(1 / r))
+        )
+      ).toBeLessThan(tolerance);
+      expect(
+        relativeError(
+          hoveringTimeDilation(1, 0.9, [r, 0, 0]),
+          weakFieldTimeDilation(1, r, 0)
+        )
+      ).toBeLessThan(tolerance);
+    }
+  );
+});
@@ -0,0 +1,56 @@
+// How fast clocks near the hole run compared with clocks far away (on
+// Earth): dt/dτ, the coordinate time that passes per unit of proper time.
+// Boyer–Lindquist coordinates and scene embedding as in ./kerr.
+//
+// On Miller's planet in Interstellar one hour is seven years, a factor of
+// about 61,000. That takes a spin within 10⁻¹⁴ of extremal; at the 0.999M
+// the ray marcher allows, an orbit at the ISCO reaches a factor of about 14.
+
+import { clampSpin, fromCartesian, photonOrbitRadius } from "./kerr";
+import { keplerianAngularVelocity, timeComponent } from "./redshift";
+import type { Vec3 } from "./vec3";
+
+// A body on a circular equatorial geodesic at radius r: gravitational and
+// orbital (including frame-dragging) dilation together. No circular orbit
+// exists inside the photon orbit, where this is Infinity.
+export function circularOrbitTimeDilation(
+  mass: number,
+  spin: number,
+  r: number,
+  prograde = true
+) {
+  if (r <= photonOrbitRadius(mass, spin, prograde)) return Infinity;
+  const a = clampSpin(mass, spin);
+  return timeComponent(
+    mass,
+    a,
+    r,
+    keplerianAngularVelocity(mass, a, r, prograde)
+  );
+}
+
+// An observer hovering at a scene position without angular momentum (the
+// zero-angular-momentum observer, ZAMO), carried round only by frame
+// dragging: dt/dτ = √(A / ΔΣ). Infinity at and inside the horizon.
+export function hoveringTimeDilation(
+  mass: number,
+  spin: number,
+  position: Vec3
+) {
+  const a = clampSpin(mass, spin);
+  const { r, theta } = fromCartesian(position, a);
+  const sin2 = Math.sin(theta) ** 2;
+  const sigma = r * r + a * a * Math.cos(theta) ** 2;
+  const delta = r * r - 2 * mass * r + a * a;
+  if (delta <= 0) return Infinity;
+  const big = (r * r + a * a) ** 2 - a * a * delta * sin2;
+  return Math.sqrt(big / (delta * sigma));
+}
+
+// A body moving at coordinate speed v at radius r, to first order in M/r
+// and v²: dt/dτ = 1/√(1 − 2M/r − v²). Matches the orbits integrated in
+// ./orbits, which include relativity only to that order.
+export function weakFieldTimeDilation(mass: number, r: number, speed: number) {
+  const norm = 1 - (2 * mass) / r - speed * speed;
+  return norm > 0 ? 1 / Math.sqrt(norm) : Infinity;
+}
@@ -0,0 +1,25 @@
+// Minimal tuple-based vector helpers shared by the CPU physics references
+
+export type Vec3 = [number, number, number];
+
+export const dot = (a: Vec3, b: Vec3) =>
+  a[0] * b[0] + a[1] * b[1] + a[2] * b[2];
+
+export const length = (a: Vec3) => Math.sqrt(dot(a, a));
+
+export const cross = (a: Vec3, b: Vec3): Vec3 => [
+  a[1] * b[2] - a[2] * b[1],
+  a[2] * b[0] - a[0] * b[2],
+  a[0] * b[1] - a[1] * b[0],
+];
+
+export const add = (a: Vec3, b: Vec3, scale = 1): Vec3 => [
+  a[0] + b[0] * scale,
+  a[1] + b[1] * scale,
+  a[2] + b[2] * scale,
+];
+
+export const normalize = (a: Vec3): Vec3 => {
+  const len = length(a);
+  return [a[0] / len, a[1] / len, a[2] / len];
+};
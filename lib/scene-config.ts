@@ -0,0 +1,390 @@
+import { z } from "zod";
+
+// Data model for everything InterstellarBlackHole renders. Every field has a
+// default, so `sceneConfigSchema.parse({})` reproduces the original scene and
+// callers only need to supply what they want to change.
+
+const vec3 = z.tuple([z.number(), z.number(), z.number()]);
+
+const hexColor = z
+  .string()
+  .regex(/^#[0-9a-fA-F]{6}$/, "Expected a hex colour such as #FFF5E0");
+
+export const ringOverlaySchema = z.enum(["physical", "artistic", "split"]);
+
+export const diskPaletteSchema = z.enum(["blackbody", "artistic"]);
+
+const blackHoleSchema = z
+  .object({
+    // Geometric units: the horizon of a non-spinning hole sits at 2 × mass
+    mass: z.number().positive().default(1),
+    // Kerr spin parameter a, in the same units as mass (0 ≤ a < M)
+    spin: z.number().min(0).default(0),
+  })
+  .strict()
+  .refine(({ mass, spin }) => spin < mass, {
+    message: "Spin must be smaller than the mass (a < M)",
+    path: ["spin"],
+  });
+
+const diskSchema = z
+  .object({
+    // Inner edge in Schwarzschild radii, or the ISCO for the current spin
+    innerRadius: z
+      .union([z.literal("isco"), z.number().positive()])
+      .default("isco"),
+    // Outer edge in Schwarzschild radii
+    outerRadius: z.number().positive().default(20),
+    // Half-thickness of the warped disk plane in Schwarzschild radii
+    thickness: z.number().nonnegative().default(0.1),
+    // Disk orbiting against the hole's rotation, with the retrograde ISCO
+    retrograde: z.boolean().default(false),
+    // Temperature in kelvin of the hottest ring, just outside the inner edge
+    // (the Shakura–Sunyaev profile falls to zero at the edge itself)
+    temperature: z.number().positive().default(6000),
+    // Fraction of the orbital Doppler shift applied, 1 being physical.
+    // Gravitational redshift always applies.
+    dopplerStrength: z.number().min(0).max(1).default(1),
+    // Whether the shift changes the brightness and the colour of the light.
+    // Interstellar left both out, keeping Gargantua's disk symmetric.
+    beaming: z.boolean().default(true),
+    colorShift: z.boolean().default(true),
+    // Blackbody colours, or the original hand-tuned orange gradient
+    palette: diskPaletteSchema.default("blackbody"),
+    // Trace the disk as a turbulent, semi-transparent slab instead of a
+    // sheet, so its thickness shows edge-on. Much slower.
+    volumetric: z.boolean().default(false),
+    // Optical depth straight through the densest part of the disk, which
+    // sets how much of the light from behind it (the sky and the lensed far
+    // side) shows through. At 1 about a third gets through face-on.
+    opticalDepth: z.number().nonnegative().default(1),
+  })
+  .strict()
+  .refine(
+    ({ innerRadius, outerRadius }) =>
+      innerRadius === "isco" || innerRadius < outerRadius,
+    {
+      message: "Inner radius must be smaller than the outer radius",
+      path: ["innerRadius"],
+    }
+  );
+
+// Most orbiting bodies the ray tracer draws
+export const MAX_BODIES = 8;
+
+// Keplerian elements of a body's orbit at time zero. Distances are in the
+// units of the mass, angles in degrees, and the reference plane is the disk.
+const orbitSchema = z
+  .object({
+    semiMajorAxis: z.number().positive(),
+    eccentricity: z.number().min(0).lt(1).default(0),
+    inclination: z.number().default(0),
+    // Longitude of the ascending node, measured from +x
+    ascendingNode: z.number().default(0),
+    argumentOfPeriapsis: z.number().default(0),
+    // How far round the orbit the body starts, 0 being at periapsis
+    meanAnomaly: z.number().default(0),
+  })
+  .strict();
+
+const bodySchema = z
+  .object({
+    orbit: orbitSchema,
+    size: z.number().positive(),
+    color: hexColor,
+    // Add the leading correction of general relativity to Newtonian
+    // gravity, so the periapsis advances and orbits near the ISCO plunge
+    precession: z.boolean().default(true),
+  })
+  .strict();
+
+const lightsSchema = z
+  .object({
+    ambient: z
+      .object({ intensity: z.number().nonnegative().default(0.5) })
+      .strict()
+      .default({}),
+    // Point light at the black hole that lights the orbiting bodies, standing
+    // in for the glow of the disk
+    core: z
+      .object({
+        intensity: z.number().nonnegative().default(1.5),
+        distance: z.number().nonnegative().default(100),
+        decay: z.number().nonnegative().default(1.5),
+      })
+      .strict()
+      .default({}),
+    sun: z
+      .object({
+        enabled: z.boolean().default(true),
+        position: vec3.default([150, 60, -200]),
+        radius: z.number().positive().default(30),
+        haloRadius: z.number().positive().default(40),
+        color: hexColor.default("#FFF5E0"),
+        intensity: z.number().nonnegative().default(15),
+        directionalIntensity: z.number().nonnegative().default(1),
+        flare: z.boolean().default(true),
+      })
+      .strict()
+      .default({}),
+  })
+  .strict();
+
+const skySchema = z
+  .object({
+    // Relative number of faint background stars; catalogue stars show at
+    // any density above 0
+    starDensity: z.number().nonnegative().default(1),
+    // Euler angles in degrees (XYZ order) the sky is turned by, for the
+    // stars and loaded sky images alike
+    rotation: vec3.default([0, 0, 0]),
+    // Linear brightness of a loaded sky image
+    intensity: z.number().nonnegative().default(1),
+  })
+  .strict();
+
+const cameraSchema = z
+  .object({
+    distance: z.number().positive().default(30),
+    minDistance: z.number().positive().default(5),
+    maxDistance: z.number().positive().default(100),
+    // Polar angle from +y and azimuth around it, in radians
+    phi: z
+      .number()
+      .gt(0)
+      .lt(Math.PI)
+      .default(Math.PI * 0.4),
+    theta: z.number().default(Math.PI * 0.25),
+    fov: z.number().gt(0).lt(180).default(75),
+    // "dive" drops the camera from its orbit into the hole in free fall,
+    // through the horizon; "endurance" puts it on the circular orbit below,
+    // free to look around
+    mode: z.enum(["orbit", "dive", "endurance"]).default("orbit"),
+    // Angular momentum of the dive, as a fraction of a circular orbit's
+    // where it starts: 0 falls straight in, and much above 0.5 the camera
+    // may swing round on an orbit instead of falling in
+    diveSwirl: z.number().min(0).max(0.9).default(0),
+    // Circular orbit for the "endurance" mode: Boyer–Lindquist radius in
+    // the units of the mass, moved out to the innermost stable orbit if
+    // closer, and tilt to the disk plane in degrees. Retrograde orbits go
+    // round against the hole's spin.
+    endurance: z
+      .object({
+        radius: z.number().positive().default(12),
+        inclination: z.number().min(0).max(89).default(0),
+        retrograde: z.boolean().default(false),
+      })
+      .strict()
+      .default({}),
+    // How the orbiting camera moves relative to an observer hovering where
+    // it is: not at all, round the spin axis at the speed of a circular
+    // orbit in the disk's direction, or at `velocity`
+    motion: z.enum(["hovering", "orbiting", "custom"]).default("hovering"),
+    // Custom velocity in fractions of c along increasing r, θ and φ
+    velocity: vec3.default([0, 0, 0]),
+  })
+  .strict()
+  .refine(
+    ({ distance, minDistance, maxDistance }) =>
+      minDistance <= distance && distance <= maxDistance,
+    {
+      message: "Distance must lie between minDistance and maxDistance",
+      path: ["distance"],
+    }
+  )
+  .refine(({ velocity }) => Math.hypot(...velocity) < 1, {
+    message: "The camera must move slower than light",
+    path: ["velocity"],
+  });
+
+const renderSchema = z
+  .object({
+    // Upper bound on geodesic integration steps per ray
+    maxSteps: z.number().int().min(16).max(500).default(200),
+    // Jitter the live view's rays frame to frame so the temporal upscaler
+    // averages them into an anti-aliased image
+    antialias: z.boolean().default(true),
+    // Trace the live view at a lower resolution when frames run over the
+    // budget set by targetFps, rebuilding the full resolution over frames
+    adaptiveResolution: z.boolean().default(true),
+    targetFps: z.number().min(10).max(144).default(45),
+    // Defaults to window.devicePixelRatio
+    pixelRatio: z.number().positive().optional(),
+    // Linear brightness multiplier applied before tone mapping
+    exposure: z.number().positive().default(1),
+    ringOverlay: ringOverlaySchema.default("physical"),
+    showImageOrder: z.boolean().default(false),
+    // Readout of how fast clocks on the bodies and at the camera run
+    // compared with Earth's
+    showTimeDilation: z.boolean().default(false),
+  })
+  .strict();
+
+export const sceneConfigSchema = z
+  .object({
+    blackHole: blackHoleSchema.default({}),
+    disk: diskSchema.default({}),
+    bodies: z
+      .array(bodySchema)
+      .max(MAX_BODIES)
+      .default([
+        {
+          orbit: { semiMajorAxis: 30, eccentricity: 0.1 },
+          size: 2.5,
+          color: "#5D9DFF",
+        },
+        {
+          orbit: {
+            semiMajorAxis: 40,
+            eccentricity: 0.05,
+            inclination: 3,
+            argumentOfPeriapsis: 90,
+          },
+          size: 3,
+          color: "#80FFD5",
+        },
+        {
+          orbit: {
+            semiMajorAxis: 36,
+            eccentricity: 0.2,
+            inclination: 8,
+            ascendingNode: 110,
+            meanAnomaly: 90,
+          },
+          size: 2,
+          color: "#FFE066",
+        },
+      ]),
+    lights: lightsSchema.default({}),
+    sky: skySchema.default({}),
+    camera: cameraSchema.default({}),
+    render: renderSchema.default({}),
+  })
+  .strict();
+
+export type RingOverlay = z.infer<typeof ringOverlaySchema>;
+export type DiskPalette = z.infer<typeof diskPaletteSchema>;
+export type CameraMotion = SceneConfig["camera"]["motion"];
+export type SceneConfig = z.output<typeof sceneConfigSchema>;
+// What callers may pass: any subset of SceneConfig
+export type SceneConfigInput = z.input<typeof sceneConfigSchema>;
+export type BodyConfig = SceneConfig["bodies"][number];
+// Where the orbiting camera currently is
+export type CameraPose = Pick<
+  SceneConfig["camera"],
+  "phi" | "theta" | "distance"
+>;
+
+export type QualityPreset = "low" | "medium" | "high";
+
+// Named bundles of the render settings that trade speed for fidelity
+export const QUALITY_PRESETS: Record<
+  QualityPreset,
+  Pick<SceneConfig["render"], "maxSteps" | "antialias">
+> = {
+  low: { maxSteps: 100, antialias: false },
+  medium: { maxSteps: 200, antialias: true },
+  high: { maxSteps: 400, antialias: true },
+};
+
+export type RenderPreset = "interstellar" | "physical" | "artistic";
+
+// Named looks for the disk and its rings. The renderer fades the disk
+// between them rather than switching at once.
+export const RENDER_PRESETS: Record<
+  RenderPreset,
+  {
+    disk: Pick<
+      SceneConfig["disk"],
+      "palette" | "dopplerStrength" | "beaming" | "colorShift"
+    >;
+    render: Pick<SceneConfig["render"], "ringOverlay">;
+  }
+> = {
+  // As rendered by DNGR for the film: lensing, but no frequency shift
+  interstellar: {
+    disk: {
+      palette: "blackbody",
+      dopplerStrength: 0,
+      beaming: false,
+      colorShift: false,
+    },
+    render: { ringOverlay: "physical" },
+  },
+  physical: {
+    disk: {
+      palette: "blackbody",
+      dopplerStrength: 1,
+      beaming: true,
+      colorShift: true,
+    },
+    render: { ringOverlay: "physical" },
+  },
+  // The original look: hand-tuned gradient and painted Einstein rings
+  artistic: {
+    disk: {
+      palette: "artistic",
+      dopplerStrength: 0.4,
+      beaming: true,
+      colorShift: true,
+    },
+    render: { ringOverlay: "artistic" },
+  },
+};
+
+export const defaultSceneConfig: SceneConfig = sceneConfigSchema.parse({});
+
+// Miller's planet from Interstellar: a hole spinning as fast as the renderer
+// allows, with one planet on a circular orbit just outside the ISCO (1.18M
+// at a = 0.999M) where its clocks run slowest. The disk is held back to
+// leave the planet a clear lane, and the camera hovers close by with the
+// time-dilation readout on.
+export function millerScenario(config: SceneConfig): SceneConfig {
+  return {
+    ...config,
+    blackHole: { mass: 1, spin: 0.999 },
+    disk: { ...config.disk, innerRadius: 2 },
+    bodies: [
+      bodySchema.parse({
+        orbit: { semiMajorAxis: 1.2 },
+        size: 0.08,
+        color: "#7FA8C8",
+      }),
+    ],
+    camera: {
+      ...config.camera,
+      distance: 8,
+      minDistance: Math.min(config.camera.minDistance, 8),
+      phi: Math.PI * 0.47,
+    },
+    render: { ...config.render, showTimeDilation: true },
+  };
+}
+
+export type SceneConfigResult =
+  | { success: true; config: SceneConfig }
+  | { success: false; errors: string[] };
+
+// One message per zod issue, prefixed with the bad field's path, e.g.
+// "bodies.1.color: Expected a hex colour such as #FFF5E0"
+export function formatIssues(error: z.ZodError): string[] {
+  return error.issues.map((issue) =>
+    issue.path.length > 0
+      ? `${issue.path.join(".")}: ${issue.message}`
+      : issue.message
+  );
+}
+
+// Validate untrusted data, reporting each bad field by its path
+export function validateSceneConfig(input: unknown): SceneConfigResult {
+  const result = sceneConfigSchema.safeParse(input ?? {});
+
+  if (result.success) {
+    return { success: true, config: result.data };
+  }
+
+  return {
+    success: false,
+    errors: formatIssues(result.error),
+  };
+}
@@ -0,0 +1,112 @@
+#include <common>
+#include <raymarch>
+#include <sky>
+#include <overlays>
+#include <tonemap>
+
+// World direction of the ray through a point on screen, in normalised
+// device coordinates: back through the projection to the far plane, then
+// into the world with the camera
+vec3 cameraRay(vec2 screen) {
+  vec4 target = cameraProjectionInverse * vec4(screen, 1.0, 1.0);
+  return normalize((cameraMatrix * vec4(target.xyz / target.w, 0.0)).xyz);
+}
+
+// Depth-buffer value of the point `along` the ray through screen, as a
+// rasterised object there would have; the sky (-1) is on the far plane
+float rayDepth(vec2 screen, float along) {
+  if (along < 0.0) {
+    return 1.0;
+  }
+  vec4 target = cameraProjectionInverse * vec4(screen, 1.0, 1.0);
+  vec4 clip = cameraProjection * vec4(normalize(target.xyz / target.w) * along, 1.0);
+  return clamp(0.5 * clip.z / clip.w + 0.5, 0.0, 1.0);
+}
+
+// The nearer of two surface distances, -1 meaning none
+float nearerSurface(float a, float b) {
+  return a < 0.0 ? b : (b < 0.0 ? a : min(a, b));
+}
+
+// The disk along one ray plus the sky that shows through it. The screen
+// derivatives of the escape direction measure how much sky the pixel
+// covers after lensing; footprintScale is the sample's share of the
+// pixel. Only call this from uniform control flow, where derivatives are
+// defined.
+vec3 traceRay(vec3 rayDirection, float footprintScale, out float imageOrder, out float surfaceDistance) {
+  vec4 escape;
+  float skyShift;
+  vec3 color = rayMarchBlackHole(cameraPos, rayDirection, imageOrder, escape, skyShift, surfaceDistance);
+  float footprint = max(length(dFdx(escape.xyz)), length(dFdy(escape.xyz))) * footprintScale;
+
+  if (escape.w > 0.0) {
+    color += escape.w * sky(escape.xyz, footprint, skyShift);
+  }
+  return color;
+}
+
+void main() {
+  vec3 finalColor;
+  float imageOrder;
+  float surfaceDistance;
+  float nearest = -1.0;
+
+  // One pixel's step in normalised device coordinates
+  vec2 pixel = vec2(dFdx(vScreen.x), dFdy(vScreen.y));
+
+  // Offline export: an N×N grid spread over this pixel's footprint,
+  // averaged in linear light before tone mapping
+  if (supersample > 0.5) {
+    finalColor = vec3(0.0);
+
+    for (int i = 0; i < MAX_SUPERSAMPLE * MAX_SUPERSAMPLE; i++) {
+      if (float(i) >= supersample * supersample) break;
+
+      float x = (mod(float(i), supersample) + 0.5) / supersample - 0.5;
+      float y = (floor(float(i) / supersample) + 0.5) / supersample - 0.5;
+      vec3 rayDirection = cameraRay(vScreen + pixel * vec2(x, y));
+      vec3 sampleColor = traceRay(rayDirection, 1.0 / supersample, imageOrder, surfaceDistance);
+      nearest = nearerSurface(nearest, surfaceDistance);
+
+      if (showImageOrder > 0.5) {
+        sampleColor = imageOrderColor(sampleColor, imageOrder);
+      }
+
+      finalColor += sampleColor;
+    }
+
+    finalColor /= supersample * supersample;
+  }
+  // Live view: one ray per pixel, jittered frame to frame by the temporal
+  // upscaler (lib/temporal-upscaler.ts) which averages them into the AA
+  else {
+    vec3 rayDirection = cameraRay(vScreen);
+    finalColor = traceRay(rayDirection, 1.0, imageOrder, nearest);
+
+    if (showImageOrder > 0.5) {
+      finalColor = imageOrderColor(finalColor, imageOrder);
+    }
+  }
+
+  // Photon rings come out of the traced rays themselves; the old fixed
+  // overlay is kept for comparison, optionally on the left half only
+  vec3 rayDir = cameraRay(vScreen);
+  vec3 cameraRight = normalize(cameraMatrix[0].xyz);
+  bool leftHalf = dot(rayDir, cameraRight) < 0.0;
+
+  if (ringOverlay > 1.5) {
+    if (leftHalf) {
+      finalColor += artisticEinsteinRings(rayDir);
+    }
+
+    // Thin divider between the two halves
+    float divider = abs(dot(rayDir, cameraRight));
+    finalColor = mix(finalColor, vec3(0.6), 1.0 - smoothstep(0.0, 0.0015, divider));
+  } else if (ringOverlay > 0.5) {
+    finalColor += artisticEinsteinRings(rayDir);
+  }
+
+  gl_FragColor = vec4(tonemap(finalColor, exposure), 1.0);
+  // Rasterised objects are hidden behind whatever the nearest sample met
+  gl_FragDepth = rayDepth(vScreen, nearest);
+}
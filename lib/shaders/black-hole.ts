@@ -0,0 +1,51 @@
+import {
+  BLACKBODY_LUT_SIZE,
+  BLACKBODY_MAX_TEMPERATURE,
+  BLACKBODY_MIN_TEMPERATURE,
+} from "@/lib/physics/blackbody";
+import { MAX_BODIES } from "@/lib/scene-config";
+import fragmentShader from "@/lib/shaders/black-hole.frag.glsl";
+import vertexShader from "@/lib/shaders/black-hole.vert.glsl";
+import { SHADER_CHUNKS } from "@/lib/shaders/chunks";
+import {
+  buildShader,
+  glslFloat,
+  type BuiltShader,
+  type ShaderDefines,
+} from "@/lib/shaders/preprocess";
+import { STAR_MAP_FACE_SIZE } from "@/lib/stars/star-map";
+
+export type ShaderProgram = {
+  vertex: BuiltShader;
+  fragment: BuiltShader;
+};
+
+// Compile-time limits of the ray tracer. The matching uniforms pick the
+// actual budget at runtime, up to these bounds.
+export const MAX_TRACE_STEPS = 500;
+export const MAX_SUPERSAMPLE = 8;
+
+export function buildBlackHoleShaders(
+  defines: ShaderDefines = {}
+): ShaderProgram {
+  return {
+    vertex: buildShader(
+      { file: "black-hole.vert.glsl", source: vertexShader },
+      SHADER_CHUNKS
+    ),
+    fragment: buildShader(
+      { file: "black-hole.frag.glsl", source: fragmentShader },
+      SHADER_CHUNKS,
+      {
+        MAX_STEPS: MAX_TRACE_STEPS,
+        MAX_SUPERSAMPLE,
+        MAX_BODIES,
+        BLACKBODY_MIN_TEMPERATURE: glslFloat(BLACKBODY_MIN_TEMPERATURE),
+        BLACKBODY_MAX_TEMPERATURE: glslFloat(BLACKBODY_MAX_TEMPERATURE),
+        BLACKBODY_LUT_SIZE: glslFloat(BLACKBODY_LUT_SIZE),
+        STAR_MAP_FACE_SIZE: glslFloat(STAR_MAP_FACE_SIZE),
+        ...defines,
+      }
+    ),
+  };
+}
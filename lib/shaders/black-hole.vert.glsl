@@ -0,0 +1,11 @@
+// Full-screen quad: the 2×2 plane is already in clip space, so it covers
+// the view whatever the camera does and the fragment shader builds each
+// pixel's ray from the camera's matrices. jitter moves every ray by the
+// same sub-pixel offset, in normalised device coordinates.
+uniform vec2 jitter;
+varying vec2 vScreen;
+
+void main() {
+  vScreen = position.xy + jitter;
+  gl_Position = vec4(position.xy, 1.0, 1.0);
+}
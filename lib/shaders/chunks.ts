@@ -0,0 +1,27 @@
+import blackbody from "@/lib/shaders/chunks/blackbody.glsl";
+import bodies from "@/lib/shaders/chunks/bodies.glsl";
+import common from "@/lib/shaders/chunks/common.glsl";
+import disk from "@/lib/shaders/chunks/disk.glsl";
+import noise from "@/lib/shaders/chunks/noise.glsl";
+import overlays from "@/lib/shaders/chunks/overlays.glsl";
+import raymarch from "@/lib/shaders/chunks/raymarch.glsl";
+import relativity from "@/lib/shaders/chunks/relativity.glsl";
+import sky from "@/lib/shaders/chunks/sky.glsl";
+import starfield from "@/lib/shaders/chunks/starfield.glsl";
+import tonemap from "@/lib/shaders/chunks/tonemap.glsl";
+import type { ShaderChunks } from "@/lib/shaders/preprocess";
+
+// Every chunk available to `#include <name>`, keyed by its file name
+export const SHADER_CHUNKS: ShaderChunks = {
+  blackbody,
+  bodies,
+  common,
+  disk,
+  noise,
+  overlays,
+  raymarch,
+  relativity,
+  sky,
+  starfield,
+  tonemap,
+};
@@ -0,0 +1,29 @@
+// Thermal emission from the lookup table built by createBlackbodyLut in
+// lib/physics/blackbody.ts: unit-luminance linear sRGB in RGB, log2 of the
+// luminance relative to a 6500 K blackbody in A
+
+uniform sampler2D blackbodyLut;
+
+vec4 blackbodyTexel(float temperature) {
+  float u = log(max(temperature, BLACKBODY_MIN_TEMPERATURE) / BLACKBODY_MIN_TEMPERATURE) /
+    log(BLACKBODY_MAX_TEMPERATURE / BLACKBODY_MIN_TEMPERATURE);
+  // Texel centres run from 0.5 to size - 0.5
+  float x = (0.5 + clamp(u, 0.0, 1.0) * (BLACKBODY_LUT_SIZE - 1.0)) / BLACKBODY_LUT_SIZE;
+  return texture2D(blackbodyLut, vec2(x, 0.5));
+}
+
+// Colour with unit luminance
+vec3 blackbodyChromaticity(float temperature) {
+  return blackbodyTexel(temperature).rgb;
+}
+
+// Luminance on a scale where a 6500 K blackbody is 1
+float blackbodyLuminance(float temperature) {
+  if (temperature < BLACKBODY_MIN_TEMPERATURE) return 0.0;
+  return exp2(blackbodyTexel(temperature).a);
+}
+
+// Linear sRGB radiance of a blackbody, on the same relative scale
+vec3 blackbody(float temperature) {
+  return blackbodyChromaticity(temperature) * blackbodyLuminance(temperature);
+}
@@ -0,0 +1,106 @@
+#include <common>
+
+// Planets and the sun as analytic spheres, so the ray marcher bends their
+// images like everything else. Positions are updated every frame; only the
+// first bodyCount of the MAX_BODIES slots are used.
+uniform vec4 bodies[MAX_BODIES]; // centre, radius
+uniform vec3 bodyColors[MAX_BODIES]; // linear albedo
+uniform float bodyCount;
+uniform vec4 sun; // centre, radius; radius 0 when the sun is off
+uniform vec3 sunColor;
+uniform float sunHaloRadius;
+// Lights on the planets: ambient, the sun's point and directional lights,
+// and the glow of the disk as a point light at the centre (intensity,
+// cutoff distance, decay)
+uniform vec3 bodyLighting; // ambient, sun point, sun directional
+uniform vec3 coreLight;
+
+// Radiance of the sun's surface relative to its colour
+const float SUN_BRIGHTNESS = 3.0;
+// Opacity of the glow shell around the sun
+const float SUN_HALO_OPACITY = 0.2;
+// Fraction of a planet's colour it emits itself
+const float BODY_EMISSION = 0.2;
+const float BODY_METALNESS = 0.2;
+
+// Distance along the unit direction dir from origin to where it enters the
+// sphere, or -1 if it misses or the origin is inside
+float sphereEntry(vec3 origin, vec3 dir, vec4 sphere) {
+  vec3 offset = origin - sphere.xyz;
+  float b = dot(offset, dir);
+  float c = dot(offset, offset) - sphere.w * sphere.w;
+  float discriminant = b * b - c;
+  if (c < 0.0 || discriminant < 0.0) return -1.0;
+  return -b - sqrt(discriminant);
+}
+
+// Falloff of three's point lights with a cutoff distance
+float lightAttenuation(float distance, float cutoff, float decay) {
+  if (cutoff <= 0.0) return 1.0;
+  return pow(clamp(1.0 - distance / cutoff, 0.0, 1.0), decay);
+}
+
+// Planet surface lit by the ambient, sun and core lights (Lambertian, as
+// the rasterised planets were)
+vec3 shadeBody(vec3 point, vec3 normal, vec3 albedo) {
+  vec3 light = vec3(bodyLighting.x);
+
+  if (sun.w > 0.0) {
+    vec3 toSun = sun.xyz - point;
+    float sunDistance = length(toSun);
+    float facing = max(dot(normal, toSun / sunDistance), 0.0);
+    light += sunColor * facing * (
+      bodyLighting.y * lightAttenuation(sunDistance, 500.0, 1.5) +
+      bodyLighting.z
+    );
+  }
+
+  float coreDistance = length(point);
+  light += coreLight.x * max(dot(normal, -point / coreDistance), 0.0) *
+    lightAttenuation(coreDistance, coreLight.y, coreLight.z);
+
+  return albedo * (1.0 - BODY_METALNESS) * light + albedo * BODY_EMISSION;
+}
+
+// Composite any body met within maxDistance of origin along the unit
+// direction dir over color, front to back. Returns how far along dir an
+// opaque body ends the ray, or -1 if none does.
+float traceBodies(vec3 origin, vec3 dir, float maxDistance, inout vec3 color, inout float transmittance) {
+  float nearest = maxDistance;
+  vec3 surface = vec3(0.0);
+  bool hit = false;
+
+  for (int i = 0; i < MAX_BODIES; i++) {
+    if (float(i) >= bodyCount) break;
+
+    float t = sphereEntry(origin, dir, bodies[i]);
+    if (t >= 0.0 && t < nearest) {
+      vec3 point = origin + dir * t;
+      nearest = t;
+      surface = shadeBody(point, normalize(point - bodies[i].xyz), bodyColors[i]);
+      hit = true;
+    }
+  }
+
+  if (sun.w > 0.0) {
+    float t = sphereEntry(origin, dir, sun);
+    if (t >= 0.0 && t < nearest) {
+      nearest = t;
+      surface = sunColor * SUN_BRIGHTNESS;
+      hit = true;
+    }
+
+    // The halo is a faint shell seen in front of whatever it surrounds
+    float haloT = sphereEntry(origin, dir, vec4(sun.xyz, sunHaloRadius));
+    if (haloT >= 0.0 && haloT < nearest) {
+      color += transmittance * SUN_HALO_OPACITY * sunColor;
+      transmittance *= 1.0 - SUN_HALO_OPACITY;
+    }
+  }
+
+  if (hit) {
+    color += transmittance * surface;
+    transmittance = 0.0;
+  }
+  return hit ? nearest : -1.0;
+}
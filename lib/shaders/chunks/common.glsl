@@ -0,0 +1,40 @@
+// Uniforms, varyings and constants shared by every chunk. MAX_STEPS and
+// MAX_SUPERSAMPLE are injected as defines by the TypeScript side.
+
+uniform float time;
+uniform vec2 resolution;
+uniform vec3 cameraPos;
+uniform mat4 cameraMatrix; // camera to world
+uniform mat4 cameraProjection;
+uniform mat4 cameraProjectionInverse;
+uniform float blackHoleMass;
+uniform float spin;
+uniform float diskInnerRadius;
+uniform float diskDirection;
+uniform float ringOverlay; // 0 = physical, 1 = artistic, 2 = split view
+uniform float showImageOrder;
+uniform float diskOuterRadius;
+uniform float diskBaseThickness;
+uniform float maxSteps; // actual step budget, at most MAX_STEPS
+uniform float diskTemperature;
+uniform float dopplerStrength; // 0 = no orbital Doppler shift, 1 = physical
+uniform float dopplerBeaming; // 1 = the shift changes brightness
+uniform float colorShift; // 1 = the shift changes colour
+uniform float diskPalette; // 0 = blackbody, 1 = artistic gradient
+uniform float volumetricDisk; // 1 = integrate through a turbulent slab
+uniform float diskOpticalDepth; // vertical optical depth where densest
+uniform float starDensity;
+uniform float exposure;
+uniform float supersample; // N×N rays per pixel for exports, 0 when live
+
+// Normalised device coordinates of the pixel
+varying vec2 vScreen;
+
+const float PI = 3.14159265359;
+const float MAX_DIST = 100.0;
+const float EPSILON = 0.001;
+
+// Spin parameter a, kept just below extremal so the horizon stays regular
+float kerrSpin() {
+  return clamp(spin, 0.0, 0.999 * blackHoleMass);
+}
@@ -0,0 +1,137 @@
+#include <common>
+#include <blackbody>
+#include <noise>
+#include <relativity>
+
+// Shakura–Sunyaev effective temperature, scaled so the hottest ring (at
+// 49/36 of the inner radius) is at diskTemperature. lib/physics/disk.ts is
+// the CPU version.
+float diskTemperatureAt(float radius, float innerRadius) {
+  float x = innerRadius / radius;
+  float profile = pow(x, 0.75) * pow(max(1.0 - sqrt(x), 0.0), 0.25);
+  float peakProfile = pow(36.0 / 49.0, 0.75) * pow(1.0 / 7.0, 0.25);
+  return diskTemperature * profile / peakProfile;
+}
+
+// The original hand-tuned Gargantua gradient, from orange-red through orange
+// to yellow-white as the temperature nears its peak. It used to switch
+// between the three colours in bands; now it blends between them.
+vec3 artisticDiskPalette(float relativeTemperature) {
+  vec3 color = mix(vec3(0.9, 0.3, 0.0), vec3(1.0, 0.6, 0.2), smoothstep(0.5, 0.7, relativeTemperature));
+  return mix(color, vec3(1.0, 0.9, 0.7), smoothstep(0.7, 0.9, relativeTemperature));
+}
+
+// Disk emission as seen from the camera, with animated swirls and rings on
+// top. redshift is g = ν_camera / ν_emitted. Specific intensity goes as g³
+// (I_ν / ν³ is invariant), which turns a blackbody at T into one at g·T, so
+// shifting the temperature shifts the spectrum and scales the brightness.
+// colorShift, dopplerBeaming and diskPalette are weights rather than
+// switches, so a change of render preset can fade between looks.
+vec3 getDiskColor(float radius, float angle, float innerRadius, float time, float redshift) {
+  float temperature = diskTemperatureAt(radius, innerRadius);
+  float observed = redshift * temperature;
+
+  // Colour from the shifted or the emitted spectrum, brightness likewise
+  float shownTemperature = mix(temperature, observed, colorShift);
+  float luminance = mix(blackbodyLuminance(temperature), blackbodyLuminance(observed), dopplerBeaming);
+
+  // Relative to the hottest ring, so changing the peak temperature shifts
+  // the colours without blowing out the exposure
+  vec3 physical = blackbodyChromaticity(shownTemperature) * luminance /
+    blackbodyLuminance(diskTemperature);
+
+  // The artistic palette stays bright across the disk; beaming follows the
+  // bolometric g⁴ law instead
+  vec3 artistic = artisticDiskPalette(shownTemperature / diskTemperature) *
+    mix(1.0, pow(redshift, 4.0), dopplerBeaming);
+
+  vec3 color = mix(physical, artistic, diskPalette);
+
+  // Wave animation pattern - adds vertical wave motion
+  float waveHeight = 0.3;
+  float waveFreq = 3.0;
+  float waveSpeed = 0.8;
+  float verticalOffset = sin(angle * waveFreq + time * waveSpeed) * waveHeight;
+
+  // Dynamic swirling pattern based on time with wave effect
+  float rotationSpeed = 0.3;
+  float swirl = 0.85 + 0.15 * sin(
+    angle * 6.0 +
+    radius * 1.5 -
+    time * rotationSpeed * (1.0 + 1.0/radius) +
+    verticalOffset
+  );
+
+  // Multiple rings for more detail
+  float rings = 0.92 + 0.08 * sin(radius * 20.0);
+  float fineRings = 0.95 + 0.05 * sin(radius * 100.0);
+
+  // Add pulsing wave animation
+  float pulse = 1.0 + 0.15 * sin(time * 0.5 + radius * 2.0);
+
+  // Increase overall brightness
+  return color * swirl * rings * fineRings * pulse * 2.5;
+}
+
+// Slant path of a ray through the thin disk, in units of its vertical
+// optical depth, for a ray meeting it at viewCosine = |cos| of the angle
+// from the normal: 1/viewCosine (floored, so grazing rays stay finite),
+// times the gas's coverage, which thins out towards both edges.
+float diskSlant(float radius, float innerRadius, float outerRadius, float viewCosine) {
+  float coverage = smoothstep(innerRadius, innerRadius * 1.15, radius) *
+    (1.0 - smoothstep(outerRadius * 0.8, outerRadius, radius));
+  return coverage / max(viewCosine, 0.1);
+}
+
+// Fraction of the light from behind that a crossing blocks
+float diskOpacity(float slant) {
+  return 1.0 - exp(-diskOpticalDepth * slant);
+}
+
+// Light a crossing gives off relative to a face-on crossing of the full
+// disk, so opacity doesn't dim the disk. Tends to the optically thin slant
+// as the optical depth goes to 0, which is used below 1e-4.
+float diskEmission(float slant) {
+  if (diskOpticalDepth < 1e-4) {
+    return slant;
+  }
+  return diskOpacity(slant) / (1.0 - exp(-diskOpticalDepth));
+}
+
+// Geometric time units the gas advances per second of animation, so the
+// inner disk turns in seconds rather than minutes
+const float DISK_TIME_SCALE = 20.0;
+// Seconds before the sheared noise is replaced by a fresh copy
+const float DISK_SHEAR_PERIOD = 8.0;
+
+// One layer of turbulence, advected for flowTime seconds. Sampling the
+// noise at the angle each ring had flowTime ago makes inner rings outrun
+// outer ones, winding the clumps into trailing spirals.
+float shearedTurbulence(float radius, float angle, float height, float flowTime, float seed) {
+  float omega = keplerianAngularVelocity(radius, diskDirection);
+  float corotating = angle - omega * flowTime * DISK_TIME_SCALE;
+  // Flattened noise: clumps are far wider than the disk is thick
+  vec3 q = vec3(radius * cos(corotating), height * 4.0, radius * sin(corotating)) * 0.6;
+  q += seed * vec3(13.7, 7.1, 29.3);
+  q += curlNoise(q * 0.35) * 0.4;
+  return fbm(q);
+}
+
+// Density of the volumetric disk in [0, 1] at height above its warped
+// midplane: a Gaussian vertical profile (σ = half the thickness) filled
+// with clumpy turbulence. Two copies of the noise, half a shear period
+// apart, take turns so neither has wound up too tightly when it is seen.
+float diskDensity(float radius, float angle, float height, float halfThickness, float outerRadius, float time) {
+  float vertical = exp(-2.0 * height * height / (halfThickness * halfThickness));
+  float edge = 1.0 - smoothstep(outerRadius * 0.8, outerRadius, radius);
+
+  float phase = time / DISK_SHEAR_PERIOD;
+  float blend = abs(2.0 * fract(phase) - 1.0);
+  float turbulence = mix(
+    shearedTurbulence(radius, angle, height, fract(phase) * DISK_SHEAR_PERIOD, floor(phase)),
+    shearedTurbulence(radius, angle, height, fract(phase + 0.5) * DISK_SHEAR_PERIOD, floor(phase + 0.5) + 0.5),
+    blend
+  );
+
+  return vertical * edge * smoothstep(0.3, 0.7, turbulence);
+}
@@ -0,0 +1,58 @@
+// Pseudo-random value in [0, 1) for a lattice point. Hash without sine
+// (Dave Hoskins), stable across GPUs at large inputs.
+float hash13(vec3 p) {
+  p = fract(p * 0.1031);
+  p += dot(p, p.zyx + 31.32);
+  return fract((p.x + p.y) * p.z);
+}
+
+// Trilinearly blended lattice noise in [0, 1]
+float valueNoise(vec3 p) {
+  vec3 i = floor(p);
+  vec3 f = fract(p);
+  vec3 u = f * f * (3.0 - 2.0 * f);
+
+  return mix(
+    mix(
+      mix(hash13(i), hash13(i + vec3(1.0, 0.0, 0.0)), u.x),
+      mix(hash13(i + vec3(0.0, 1.0, 0.0)), hash13(i + vec3(1.0, 1.0, 0.0)), u.x),
+      u.y
+    ),
+    mix(
+      mix(hash13(i + vec3(0.0, 0.0, 1.0)), hash13(i + vec3(1.0, 0.0, 1.0)), u.x),
+      mix(hash13(i + vec3(0.0, 1.0, 1.0)), hash13(i + vec3(1.0, 1.0, 1.0)), u.x),
+      u.y
+    ),
+    u.z
+  );
+}
+
+// Four octaves of value noise, normalised to [0, 1]
+float fbm(vec3 p) {
+  float sum = 0.0;
+  float amplitude = 0.5;
+  for (int octave = 0; octave < 4; octave++) {
+    sum += amplitude * valueNoise(p);
+    // Odd lacunarity keeps the octaves' lattices from lining up
+    p = p * 2.03 + vec3(17.1, 5.3, 11.7);
+    amplitude *= 0.5;
+  }
+  return sum / 0.9375;
+}
+
+// Forward-difference gradient of valueNoise
+vec3 noiseGradient(vec3 p) {
+  const float h = 0.05;
+  float n = valueNoise(p);
+  return vec3(
+    valueNoise(p + vec3(h, 0.0, 0.0)) - n,
+    valueNoise(p + vec3(0.0, h, 0.0)) - n,
+    valueNoise(p + vec3(0.0, 0.0, h)) - n
+  ) / h;
+}
+
+// Divergence-free flow, ∇×(n₁∇n₂) = ∇n₁ × ∇n₂ for two decorrelated noise
+// fields, for swirling distortions that neither pinch nor spread
+vec3 curlNoise(vec3 p) {
+  return cross(noiseGradient(p), noiseGradient(p + vec3(31.4, 47.2, 12.9)));
+}
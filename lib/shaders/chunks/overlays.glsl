@@ -0,0 +1,58 @@
+#include <common>
+
+// Teaching view: tint each pixel by the order of the image it shows
+// (direct = orange, n=1 = green, n=2 = blue, higher = white), keeping
+// some of the traced brightness so the structure stays readable
+vec3 imageOrderColor(vec3 color, float order) {
+  if (order < 0.0) return vec3(0.0);
+
+  vec3 tint = vec3(1.0);
+  if (order < 0.5) {
+    tint = vec3(1.0, 0.45, 0.1);
+  } else if (order < 1.5) {
+    tint = vec3(0.2, 1.0, 0.35);
+  } else if (order < 2.5) {
+    tint = vec3(0.25, 0.45, 1.0);
+  }
+
+  float luminance = dot(color, vec3(0.2126, 0.7152, 0.0722));
+  return tint * (0.15 + 0.85 * clamp(luminance, 0.0, 1.0));
+}
+
+// The original artistic overlay: two fixed rings painted around the
+// photon sphere angle, independent of what the rays actually do
+vec3 artisticEinsteinRings(vec3 rayDir) {
+  // Calculate parameters for Einstein ring
+  float schwarzschildRadius = 2.0 * blackHoleMass;
+  float photonSphereRadius = 1.5 * schwarzschildRadius;
+
+  // Direction to black hole center
+  vec3 dirToBlackHole = normalize(-cameraPos);
+
+  // Calculate view angle from camera to black hole
+  float viewAngleCos = dot(rayDir, dirToBlackHole);
+  float viewAngle = acos(viewAngleCos);
+
+  // Calculate Einstein ring angle
+  float distToBlackHole = length(cameraPos);
+  float einsteinRingAngle = atan(photonSphereRadius / distToBlackHole);
+
+  // Create smooth, thin Einstein ring
+  float ringWidth = 0.008 * einsteinRingAngle;
+  float ringFactor = smoothstep(einsteinRingAngle - ringWidth, einsteinRingAngle, viewAngle) *
+                     smoothstep(einsteinRingAngle + ringWidth, einsteinRingAngle, viewAngle);
+
+  // Bright, blue-white glow for the Einstein ring (changed from orange-gold)
+  vec3 rings = vec3(0.6, 0.8, 1.0) * ringFactor * 6.0;
+
+  // Secondary lensing effect (subtler)
+  float secondaryRingWidth = ringWidth * 0.5;
+  float secondaryRingAngle = einsteinRingAngle * 0.7;
+  float secondaryRingFactor = smoothstep(secondaryRingAngle - secondaryRingWidth, secondaryRingAngle, viewAngle) *
+                              smoothstep(secondaryRingAngle + secondaryRingWidth, secondaryRingAngle, viewAngle);
+
+  // Blue-purple secondary ring (changed from orange-red)
+  rings += vec3(0.4, 0.5, 0.9) * secondaryRingFactor * 2.0;
+
+  return rings;
+}
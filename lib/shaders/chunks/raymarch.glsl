@@ -0,0 +1,247 @@
+#include <common>
+#include <disk>
+#include <bodies>
+#include <relativity>
+
+// Integrate the null geodesic through the scene with adaptive stepping.
+// imageOrder reports which image the pixel shows: 0 for the direct
+// image, n for rays that turned through n half-orbits, -1 for the shadow.
+// Returns the light picked up from the disk and any planet or sun in the
+// way; escape holds the direction the ray leaves in and how much sky shows
+// through (0 for the shadow), and skyShift the frequency ratio g the sky
+// is seen with. surfaceDistance is how far along the ray the pixel's
+// surface lies, for the depth buffer: where the disk has turned mostly
+// opaque, a body, or the horizon; -1 where the sky shows.
+vec3 rayMarchBlackHole(vec3 ro, vec3 rd, out float imageOrder, out vec4 escape, out float skyShift, out float surfaceDistance) {
+  // Calculate physics parameters
+  float schwarzschildRadius = 2.0 * blackHoleMass;
+  float a = kerrSpin();
+  // A dive is traced in Kerr coordinates even around a non-spinning hole,
+  // since only they carry on inside the horizon
+  bool diveCamera = diving > 0.5;
+  bool isKerr = a > 0.001 || diveCamera;
+  float horizonRadius = blackHoleMass + sqrt(blackHoleMass * blackHoleMass - a * a);
+  float innerDiskRadius = diskInnerRadius;
+  float outerDiskRadius = diskOuterRadius;
+  float diskThickness = diskBaseThickness;
+
+  // Add wave-like thickness variation to disk
+  diskThickness *= (1.0 + 0.2 * sin(time * 0.3));
+
+  // The orbiting camera's view, aberrated into the frame of the observer
+  // hovering where it is, with w the light's energy there. Both integrators
+  // start from that direction.
+  vec4 view = diveCamera ? vec4(rd, 1.0) : hoveringView(rd);
+  rd = view.xyz;
+
+  // Ray position and tangent
+  vec3 p = diveCamera ? kerrScenePosition(observerCoords, a) : ro;
+  vec3 v = rd;
+  vec3 angularMomentum = cross(p, v);
+  float h2 = dot(angularMomentum, angularMomentum);
+
+  // State and constants of motion for the Kerr path, and the conserved
+  // energy and b = L/E of the light this pixel sees, which fix its
+  // redshift wherever the ray meets the disk
+  vec3 bl;
+  vec2 blVelocity;
+  vec2 constants;
+  vec2 arriving;
+  vec4 photon = diveCamera ? observerPhoton(rd, a, bl) : zamoPhoton(ro, view, a, bl);
+  kerrBackwardRay(photon, bl, a, blVelocity, constants, arriving);
+
+  // Seen from the dive the sky is shifted by g = 1/E. Around the orbiting
+  // camera only its motion counts: the shift a hovering observer sees is a
+  // few percent and left out.
+  skyShift = diveCamera ? 1.0 / arriving.x : 1.0 / view.w;
+
+  // Light with negative energy exists only close in and can't have come
+  // from the disk or the sky
+  surfaceDistance = -1.0;
+  if (isKerr && arriving.x <= 0.0) {
+    imageOrder = -1.0;
+    escape = vec4(rd, 0.0);
+    return vec3(0.0);
+  }
+
+  // Total angle the ray has turned through, for image order
+  float turnAngle = 0.0;
+
+  // Variable to track if we've passed through the disk
+  bool hitDisk = false;
+  vec3 diskColor = vec3(0.0);
+  float diskVisibility = 0.0;
+  float diskImageOrder = 0.0;
+  bool volumetric = volumetricDisk > 0.5;
+
+  // Fraction of the light from behind that still gets through the disk
+  float transmittance = 1.0;
+  // Length of the path so far
+  float travelled = 0.0;
+
+  // Trace the ray
+  for (int i = 0; i < MAX_STEPS; i++) {
+    if (float(i) >= maxSteps) {
+      break;
+    }
+
+    // Distance from current point to black hole center
+    float distToCenter = length(p);
+
+    // Check for collision with event horizon. Traced backwards, rays from
+    // a camera inside it head out through it.
+    bool insideHorizon = isKerr
+      ? bl.x <= horizonRadius * 1.01 && blVelocity.x <= 0.0
+      : distToCenter <= schwarzschildRadius + EPSILON;
+    if (insideHorizon) {
+      imageOrder = hitDisk ? diskImageOrder : -1.0;
+      escape = vec4(normalize(v), 0.0);
+      surfaceDistance = surfaceDistance < 0.0 ? travelled : surfaceDistance;
+      // The horizon adds no light: only what the ray met in front of it
+      return diskColor;
+    }
+
+    // An outgoing ray this far out can no longer turn back
+    if (distToCenter > MAX_DIST && dot(p, v) > 0.0) {
+      break;
+    }
+
+    // Adaptive step size - smaller near black hole and disk
+    float stepFactor = 0.05;
+    float diskFactor = 1.0;
+
+    // Take smaller steps near the disk plane
+    if (abs(p.y) < diskThickness * 3.0 &&
+        distToCenter > innerDiskRadius * 0.5 &&
+        distToCenter < outerDiskRadius * 1.5) {
+      diskFactor = 0.2;
+    }
+
+    float step = max(distToCenter * stepFactor * diskFactor, 0.05);
+
+    // Inside the volumetric disk, resolve its vertical profile instead;
+    // rays grazing the slab keep the usual step along it
+    if (volumetric && abs(p.y) < diskThickness * 3.0 && distToCenter < outerDiskRadius * 1.5) {
+      step = clamp(0.5 * diskThickness / max(abs(rd.y), 1e-3), 0.02, distToCenter * stepFactor);
+    }
+
+    // Advance along the geodesic
+    vec3 nextP = p;
+    vec3 nextV = v;
+    if (isKerr) {
+      // Convert the spatial step to Mino time (dλ = Σ dτ), keeping the
+      // change in r to a tenth of r where it runs fast inside the horizon
+      float cosTheta = cos(bl.y);
+      float dTau = step / (bl.x * bl.x + a * a * cosTheta * cosTheta);
+      dTau = min(dTau, 0.1 * bl.x / max(abs(blVelocity.x), 1e-6));
+      kerrStep(bl, blVelocity, constants, -a, dTau);
+      nextP = kerrScenePosition(bl, a);
+      nextV = nextP - p;
+    } else {
+      rk4Step(nextP, nextV, h2, step);
+    }
+    vec3 nextRd = normalize(nextV);
+    turnAngle += atan(length(cross(rd, nextRd)), dot(rd, nextRd));
+    rd = nextRd;
+
+    // Wave animation in disk position - makes disk undulate
+    float diskYOffset = sin(length(p.xz) * 0.2 - time * 0.8) * diskThickness * 0.5;
+
+    if (volumetric) {
+      // Emission and absorption over this step, sampled at its midpoint
+      vec3 mid = 0.5 * (p + nextP);
+      float midRadius = length(mid.xz);
+      float height = mid.y - sin(midRadius * 0.2 - time * 0.8) * diskThickness * 0.5;
+
+      if (abs(height) < diskThickness * 2.0 &&
+          midRadius >= innerDiskRadius && midRadius <= outerDiskRadius) {
+        float diskAngle = atan(mid.z, mid.x);
+        float density = diskDensity(midRadius, diskAngle, height, diskThickness, outerDiskRadius, time);
+
+        if (density > 0.0) {
+          if (!hitDisk) {
+            hitDisk = true;
+            diskImageOrder = floor(turnAngle / PI);
+          }
+
+          float emitterRadius = sqrt(max(midRadius * midRadius - a * a, blackHoleMass * blackHoleMass));
+          float redshift = diskRedshift(emitterRadius, arriving.x, arriving.y, diskDirection, dopplerStrength);
+          vec3 baseColor = getDiskColor(midRadius, diskAngle, innerDiskRadius, time, redshift);
+
+          // Per unit length, normalised by the Gaussian's column
+          // (√(π/2)·h) so a face-on pass through solid gas matches the thin
+          // disk's brightness and has the configured optical depth
+          float column = 1.2533 * diskThickness;
+          float ds = length(nextP - p);
+          diskColor += transmittance * baseColor * density / column * ds;
+          transmittance *= exp(-diskOpticalDepth * density / column * ds);
+        }
+      }
+    } else if ((p.y - diskYOffset) * (nextP.y - diskYOffset) <= 0.0) { // Sign change in y = crossing the warped plane
+      float diskRadius = length(p.xz);
+
+      if (diskRadius >= innerDiskRadius && diskRadius <= outerDiskRadius) {
+        // The nearest crossing decides which image the pixel belongs to
+        if (!hitDisk) {
+          hitDisk = true;
+          diskImageOrder = floor(turnAngle / PI);
+        }
+        float diskAngle = atan(p.z, p.x);
+
+        // Boyer-Lindquist radius of the crossing (the cylindrical radius
+        // is √(r² + a²) in the equatorial plane)
+        float emitterRadius = sqrt(max(diskRadius * diskRadius - a * a, blackHoleMass * blackHoleMass));
+        float redshift = diskRedshift(emitterRadius, arriving.x, arriving.y, diskDirection, dopplerStrength);
+
+        // Get disk color with animated rotation, as seen from the camera
+        vec3 baseColor = getDiskColor(diskRadius, diskAngle, innerDiskRadius, time, redshift);
+
+        // Calculate view angle
+        float viewAngle = abs(dot(rd, vec3(0.0, 1.0, 0.0)));
+        diskVisibility = smoothstep(0.0, 0.2, viewAngle);
+
+        // Composite front to back: each crossing (the direct image, the far
+        // side lensed over the hole, higher orders) adds its light dimmed by
+        // the gas in front, then dims whatever lies behind it
+        float slant = diskSlant(diskRadius, innerDiskRadius, outerDiskRadius, viewAngle);
+        diskColor += transmittance * baseColor * diskVisibility * diskEmission(slant);
+        transmittance *= 1.0 - diskOpacity(slant);
+      }
+    }
+
+    // The disk counts as the surface once it hides most of what's behind
+    vec3 chord = nextP - p;
+    if (surfaceDistance < 0.0 && transmittance < 0.5) {
+      surfaceDistance = travelled + 0.5 * length(chord);
+    }
+
+    // Planets and the sun along this step's chord
+    float bodyDistance = traceBodies(p, normalize(chord), length(chord), diskColor, transmittance);
+    if (surfaceDistance < 0.0 && bodyDistance >= 0.0) {
+      surfaceDistance = travelled + bodyDistance;
+    }
+
+    // Nothing behind this much gas (or any body) can show through
+    if (transmittance < 0.01) {
+      break;
+    }
+
+    // Move along the ray
+    travelled += length(chord);
+    p = nextP;
+    v = nextV;
+  }
+
+  // Past MAX_DIST the ray is straight, out to bodies as distant as the sun
+  if (transmittance >= 0.01) {
+    float bodyDistance = traceBodies(p, normalize(v), 1e6, diskColor, transmittance);
+    if (surfaceDistance < 0.0 && bodyDistance >= 0.0) {
+      surfaceDistance = travelled + bodyDistance;
+    }
+  }
+
+  // The lensed sky shows through wherever the disk is thin
+  imageOrder = hitDisk ? diskImageOrder : floor(turnAngle / PI);
+  escape = vec4(normalize(v), transmittance >= 0.01 ? transmittance : 0.0);
+  return diskColor;
+}
@@ -0,0 +1,249 @@
+#include <common>
+
+// Lapse of a zero-angular-momentum observer in the equatorial plane;
+// reduces to sqrt(1 - Rs/r) for a non-rotating hole
+float equatorialLapse(float r) {
+  float a = kerrSpin();
+  float delta = r * r - 2.0 * blackHoleMass * r + a * a;
+  float bigA = (r * r + a * a) * (r * r + a * a) - a * a * delta;
+  return sqrt(max(r * r * delta / bigA, 0.0));
+}
+
+// Angular velocity dφ/dt of a circular equatorial geodesic at
+// Boyer-Lindquist radius r; direction is +1 for prograde, -1 for retrograde
+float keplerianAngularVelocity(float r, float direction) {
+  float M = blackHoleMass;
+  return direction * sqrt(M) / (pow(r, 1.5) + direction * kerrSpin() * sqrt(M));
+}
+
+// Frequency ratio g = ν_camera / ν_emitted for light from gas on a circular
+// equatorial orbit at Boyer-Lindquist radius r. energy and b = L/E are the
+// conserved quantities of the photon that reaches the camera, per unit
+// energy measured there. g splits into the shift seen by a
+// zero-angular-momentum observer at the emitter (gravity and frame
+// dragging) and the Doppler factor of the orbit relative to that observer;
+// dopplerScale scales the latter from none (0) to physical (1).
+// lib/physics/redshift.ts is the CPU version.
+float diskRedshift(float r, float energy, float b, float direction, float dopplerScale) {
+  float M = blackHoleMass;
+  float a = kerrSpin();
+
+  float omega = keplerianAngularVelocity(r, direction);
+
+  // Equatorial metric components
+  float gtt = -(1.0 - 2.0 * M / r);
+  float gtphi = -2.0 * M * a / r;
+  float gphiphi = r * r + a * a + 2.0 * M * a * a / r;
+
+  float ut = inversesqrt(max(-(gtt + 2.0 * omega * gtphi + omega * omega * gphiphi), 1e-6));
+  float g = 1.0 / (energy * ut * (1.0 - omega * b));
+
+  float zamoOmega = -gtphi / gphiphi;
+  float zamoG = equatorialLapse(r) / (energy * (1.0 - zamoOmega * b));
+
+  return zamoG * pow(g / zamoG, dopplerScale);
+}
+
+// Binet equation d²u/dφ² = 3Mu² − u written in Cartesian form within the
+// ray's orbital plane: x'' = −3M·h²·x / r⁵ (h = |x × v| is conserved)
+vec3 geodesicAcceleration(vec3 p, float h2) {
+  float r2 = dot(p, p);
+  return -3.0 * blackHoleMass * h2 * p / (r2 * r2 * sqrt(r2));
+}
+
+// One classical RK4 step of the photon equation of motion
+void rk4Step(inout vec3 p, inout vec3 v, float h2, float dt) {
+  vec3 a1 = geodesicAcceleration(p, h2);
+  vec3 v2 = v + a1 * dt * 0.5;
+  vec3 a2 = geodesicAcceleration(p + v * dt * 0.5, h2);
+  vec3 v3 = v + a2 * dt * 0.5;
+  vec3 a3 = geodesicAcceleration(p + v2 * dt * 0.5, h2);
+  vec3 v4 = v + a3 * dt;
+  vec3 a4 = geodesicAcceleration(p + v3 * dt, h2);
+
+  p += (v + 2.0 * v2 + 2.0 * v3 + v4) * (dt / 6.0);
+  v += (a1 + 2.0 * a2 + 2.0 * a3 + a4) * (dt / 6.0);
+}
+
+// Kerr geodesics in Boyer-Lindquist coordinates (spin axis along +y),
+// integrated in Mino time: r'' = R'(r)/2, θ'' = Θ'(θ)/2. The state is
+// bl = (r, θ, φ̃), velocity = (dr/dτ, dθ/dτ), constants = (L/E, Q/E²).
+// φ̃ is the ingoing azimuth (dφ̃ = dφ + a/Δ dr), which unlike φ stays
+// finite where rays cross the horizon.
+// Rays are traced backwards from the camera: the light arriving there
+// reversed, which is a geodesic of the hole spinning the other way with
+// L negated, so kerrStep is given spin -a and constants (-L/E, Q/E²).
+// lib/physics/kerr.ts is the CPU reference for the backward ray.
+
+// The diving camera (lib/physics/infall.ts): its ingoing Kerr coordinates
+// (r, θ, φ̃), and as columns the covariant (v, r, θ, φ̃) components of its
+// 4-velocity and its x, y and z axes
+uniform float diving;
+uniform vec3 observerCoords;
+uniform mat4 observerFrame;
+// Otherwise the camera's velocity relative to an observer hovering where it
+// is, as a fraction of c in scene axes
+uniform vec3 cameraVelocity;
+
+vec3 kerrToCartesian(vec3 bl, float a) {
+  float rho = sqrt(bl.x * bl.x + a * a);
+  return vec3(
+    rho * sin(bl.y) * cos(bl.z),
+    bl.x * cos(bl.y),
+    rho * sin(bl.y) * sin(bl.z)
+  );
+}
+
+// φ̃ − φ outside the horizon, a/(r₊ − r₋)·ln((r − r₊)/(r − r₋)); 0 inside,
+// where φ has no meaning and φ̃ stands in for it
+float ingoingAzimuthShift(float r, float a) {
+  float root = sqrt(blackHoleMass * blackHoleMass - a * a);
+  if (a <= 0.0 || r <= blackHoleMass + root) {
+    return 0.0;
+  }
+  return a / (2.0 * root) * log((r - blackHoleMass - root) / (r - blackHoleMass + root));
+}
+
+// Scene position of a ray state, laid out in Boyer-Lindquist φ
+vec3 kerrScenePosition(vec3 bl, float a) {
+  return kerrToCartesian(vec3(bl.xy, bl.z - ingoingAzimuthShift(bl.x, a)), a);
+}
+
+float kerrRadialPotential(float r, vec2 constants, float a) {
+  float delta = r * r - 2.0 * blackHoleMass * r + a * a;
+  float P = r * r + a * a - a * constants.x;
+  float K = (constants.x - a) * (constants.x - a) + constants.y;
+  return P * P - delta * K;
+}
+
+float kerrPolarPotential(float theta, vec2 constants, float a) {
+  float cosTheta = cos(theta);
+  float sinTheta = max(abs(sin(theta)), 1e-4);
+  float cot = cosTheta / sinTheta;
+  return constants.y + a * a * cosTheta * cosTheta - constants.x * constants.x * cot * cot;
+}
+
+// dφ̃/dτ = a(P − dr/dτ)/Δ − a + b/sin²θ for the reversed ray (spin a here
+// being minus the hole's); outgoing, (P − dr/dτ)/Δ is written K/(P + dr/dτ)
+// so it stays finite through the horizon
+void kerrDerivatives(vec3 bl, vec2 velocity, vec2 constants, float a, out vec3 dbl, out vec2 dvelocity) {
+  float r = bl.x;
+  float sinTheta = max(abs(sin(bl.y)), 1e-4);
+  float cosTheta = cos(bl.y);
+  float delta = max(r * r - 2.0 * blackHoleMass * r + a * a, 1e-4);
+  float b = constants.x;
+  float P = r * r + a * a - a * b;
+  float K = (b - a) * (b - a) + constants.y;
+  float ingoing = velocity.x > 0.0 ? K / (P + velocity.x) : (P - velocity.x) / delta;
+
+  dbl = vec3(
+    velocity.x,
+    velocity.y,
+    a * ingoing - a + b / (sinTheta * sinTheta)
+  );
+  dvelocity = vec2(
+    2.0 * r * P - (r - blackHoleMass) * K,
+    -a * a * cosTheta * sinTheta + b * b * cosTheta / (sinTheta * sinTheta * sinTheta)
+  );
+}
+
+// One RK4 step in Mino time, projected back onto (dr/dτ)² = R and
+// (dθ/dτ)² = Θ so far-field truncation error can't swamp the near field
+void kerrStep(inout vec3 bl, inout vec2 velocity, vec2 constants, float a, float dTau) {
+  vec3 k1; vec2 l1;
+  vec3 k2; vec2 l2;
+  vec3 k3; vec2 l3;
+  vec3 k4; vec2 l4;
+  kerrDerivatives(bl, velocity, constants, a, k1, l1);
+  kerrDerivatives(bl + k1 * dTau * 0.5, velocity + l1 * dTau * 0.5, constants, a, k2, l2);
+  kerrDerivatives(bl + k2 * dTau * 0.5, velocity + l2 * dTau * 0.5, constants, a, k3, l3);
+  kerrDerivatives(bl + k3 * dTau, velocity + l3 * dTau, constants, a, k4, l4);
+
+  bl += (k1 + 2.0 * k2 + 2.0 * k3 + k4) * (dTau / 6.0);
+  velocity += (l1 + 2.0 * l2 + 2.0 * l3 + l4) * (dTau / 6.0);
+
+  velocity.x = sign(velocity.x) * sqrt(max(kerrRadialPotential(bl.x, constants, a), 0.0));
+  velocity.y = sign(velocity.y) * sqrt(max(kerrPolarPotential(bl.y, constants, a), 0.0));
+}
+
+// Light the moving camera sees in direction rd with unit energy, as seen
+// by the hovering observer: the direction it arrives from and, in w, its
+// energy there. The Lorentz boost aberrates the sky towards the direction
+// of motion.
+vec4 hoveringView(vec3 rd) {
+  float speed2 = dot(cameraVelocity, cameraVelocity);
+  if (speed2 < 1e-12) {
+    return vec4(rd, 1.0);
+  }
+  float gamma = inversesqrt(1.0 - speed2);
+  float along = -dot(cameraVelocity, rd);
+  float energy = gamma * (1.0 + along);
+  vec3 travel = -rd + ((gamma - 1.0) * along / speed2 + gamma) * cameraVelocity;
+  return vec4(-travel / energy, energy);
+}
+
+// The light the orbiting camera at ro sees, per unit energy measured
+// there, as (E, dr/dτ, p_θ, L) with bl its position. view is that light as
+// hoveringView gives it: the direction it comes from (so it travels along
+// -view.xyz) in the frame of a zero-angular-momentum observer hovering at
+// ro, and its energy there.
+vec4 zamoPhoton(vec3 ro, vec4 view, float a, out vec3 bl) {
+  vec3 rd = view.xyz;
+
+  float w = dot(ro, ro) - a * a;
+  float r = sqrt(0.5 * (w + sqrt(w * w + 4.0 * a * a * ro.y * ro.y)));
+  float theta = acos(clamp(ro.y / r, -1.0, 1.0));
+  float phi = atan(ro.z, ro.x);
+  float sinTheta = max(sin(theta), 1e-4);
+  float cosTheta = cos(theta);
+  float rho = sqrt(r * r + a * a);
+
+  float sigma = r * r + a * a * cosTheta * cosTheta;
+  float delta = r * r - 2.0 * blackHoleMass * r + a * a;
+  float bigA = (r * r + a * a) * (r * r + a * a) - a * a * delta * sinTheta * sinTheta;
+  float lapse = sqrt(sigma * delta / bigA);
+  float frameDragging = 2.0 * blackHoleMass * a * r / bigA;
+  float cylindricalRadius = sqrt(bigA / sigma) * sinTheta;
+
+  // Local orthonormal directions of increasing r, θ and φ
+  vec3 eR = normalize(vec3(r / rho * sinTheta * cos(phi), cosTheta, r / rho * sinTheta * sin(phi)));
+  vec3 eTheta = normalize(vec3(rho * cosTheta * cos(phi), -r * sinTheta, rho * cosTheta * sin(phi)));
+  vec3 ePhi = vec3(-sin(phi), 0.0, cos(phi));
+
+  float angularMomentum = -cylindricalRadius * dot(rd, ePhi);
+
+  bl = vec3(r, theta, phi + ingoingAzimuthShift(r, a));
+  return view.w * vec4(
+    lapse + frameDragging * angularMomentum,
+    -sqrt(sigma * delta) * dot(rd, eR),
+    -sqrt(sigma) * dot(rd, eTheta),
+    angularMomentum
+  );
+}
+
+// The same for the diving camera, from its frame: p = u − rd·(x, y, z)
+vec4 observerPhoton(vec3 rd, float a, out vec3 bl) {
+  vec4 p = observerFrame * vec4(1.0, -rd);
+  float r = observerCoords.x;
+  float energy = -p.x;
+  float delta = r * r - 2.0 * blackHoleMass * r + a * a;
+
+  // Σ dr/dλ = Δp_r − P in ingoing coordinates
+  bl = observerCoords;
+  return vec4(energy, delta * p.y - (energy * (r * r + a * a) - a * p.w), p.z, p.w);
+}
+
+// Backward ray for that light: velocity and constants for kerrStep with
+// spin -a, and arriving = (E, L/E) for its redshift
+void kerrBackwardRay(vec4 photon, vec3 bl, float a, out vec2 velocity, out vec2 constants, out vec2 arriving) {
+  float energy = photon.x;
+  float b = photon.w / energy;
+  float pTheta = photon.z / energy;
+  float sinTheta = max(abs(sin(bl.y)), 1e-4);
+  float cosTheta = cos(bl.y);
+  float q = pTheta * pTheta + cosTheta * cosTheta * (b * b / (sinTheta * sinTheta) - a * a);
+
+  velocity = -vec2(photon.y / energy, pTheta);
+  constants = vec2(-b, q);
+  arriving = vec2(energy, b);
+}
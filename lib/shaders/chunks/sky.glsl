@@ -0,0 +1,47 @@
+#include <common>
+#include <starfield>
+
+// What escaping rays see: the star catalogue, or a user image loaded by
+// lib/sky-texture.ts
+uniform float skyMode; // 0 = stars, 1 = equirectangular image, 2 = cube map
+uniform sampler2D skyMap;
+uniform samplerCube skyCube;
+uniform float skySize; // texels across the image, or across one cube face
+uniform float skySrgb; // 1 = 8-bit sRGB values to decode
+uniform float skyIntensity;
+uniform mat3 skyRotation; // scene direction to sky direction
+
+vec3 srgbToLinear(vec3 color) {
+  return mix(color / 12.92, pow((color + 0.055) / 1.055, vec3(2.4)), step(0.04045, color));
+}
+
+// Light from the sky along dir. footprint is the angle of sky the sample
+// covers after lensing; picking the mip level from it keeps magnified
+// regions sharp and squeezed ones (near the shadow) from shimmering.
+// shift is the Doppler factor g the sky is seen with; an image has no
+// spectrum to shift, so it only brightens as g⁴.
+vec3 sky(vec3 dir, float footprint, float shift) {
+  vec3 skyDir = skyRotation * dir;
+  if (skyMode < 0.5) {
+    return stars(skyDir, footprint, shift);
+  }
+
+  vec3 color;
+  if (skyMode < 1.5) {
+    vec2 uv = vec2(
+      atan(skyDir.z, skyDir.x) / (2.0 * PI) + 0.5,
+      asin(clamp(skyDir.y, -1.0, 1.0)) / PI + 0.5
+    );
+    float lod = log2(max(footprint * skySize / (2.0 * PI), 1.0));
+    color = textureLod(skyMap, uv, lod).rgb;
+  } else {
+    // three's cube textures are mirrored in x (its flipEnvMap)
+    float lod = log2(max(footprint * skySize / (0.5 * PI), 1.0));
+    color = textureLod(skyCube, vec3(-skyDir.x, skyDir.yz), lod).rgb;
+  }
+
+  if (skySrgb > 0.5) {
+    color = srgbToLinear(color);
+  }
+  return color * skyIntensity * mix(1.0, pow(shift, 4.0), dopplerBeaming);
+}
@@ -0,0 +1,98 @@
+#include <common>
+#include <blackbody>
+
+// Star cells baked by lib/stars/star-map.ts: six cube faces side by side,
+// STAR_MAP_FACE_SIZE texels square, each holding at most one star as
+// (packed offset within the cell, brightness, temperature, threshold)
+uniform sampler2D starMap;
+
+// Angular radius (Gaussian σ) of a star's image, in radians
+const float STAR_SIZE = 0.0015;
+// Largest blur before a star's image outgrows the cells searched
+const float STAR_MAX_SIZE = 0.0025;
+// Sub-cell offsets are two 12-bit integers packed into one float
+const float STAR_OFFSET_STEPS = 4096.0;
+
+// Directions to the north galactic pole and the galactic centre in scene
+// coordinates (see GALACTIC_AXES in lib/stars/catalog.ts)
+const vec3 GALACTIC_POLE = vec3(-0.86767, 0.45598, 0.19808);
+const vec3 GALACTIC_CENTRE = vec3(-0.05488, -0.48384, 0.87344);
+
+// Cube face and position on it in [0, 1]², packed as (face, u, v); the
+// same mapping as cubeCell in lib/stars/star-map.ts
+vec3 starMapCell(vec3 dir) {
+  vec3 ad = abs(dir);
+  if (ad.x >= ad.y && ad.x >= ad.z) {
+    return vec3(dir.x > 0.0 ? 0.0 : 1.0, vec2(dir.z, dir.y) / ad.x * 0.5 + 0.5);
+  }
+  if (ad.y >= ad.z) {
+    return vec3(dir.y > 0.0 ? 2.0 : 3.0, vec2(dir.x, dir.z) / ad.y * 0.5 + 0.5);
+  }
+  return vec3(dir.z > 0.0 ? 4.0 : 5.0, vec2(dir.x, dir.y) / ad.z * 0.5 + 0.5);
+}
+
+// Inverse of starMapCell, unnormalised. uv outside [0, 1]² extends the
+// face's plane, so starMapCell of the result lands on the adjacent face.
+vec3 starMapDirection(float face, vec2 uv) {
+  vec2 st = uv * 2.0 - 1.0;
+  if (face < 0.5) return vec3(1.0, st.y, st.x);
+  if (face < 1.5) return vec3(-1.0, st.y, st.x);
+  if (face < 2.5) return vec3(st.x, 1.0, st.y);
+  if (face < 3.5) return vec3(st.x, -1.0, st.y);
+  if (face < 4.5) return vec3(st.x, st.y, 1.0);
+  return vec3(st.x, st.y, -1.0);
+}
+
+// Faint glow of the Milky Way's unresolved stars, brightest towards the
+// galactic centre
+vec3 milkyWay(vec3 dir) {
+  float band = exp(-abs(dot(dir, GALACTIC_POLE)) / 0.12);
+  float bulge = 0.5 + 0.5 * dot(dir, GALACTIC_CENTRE);
+  return vec3(0.9, 0.85, 1.0) * 0.012 * band * (0.4 + 0.6 * bulge * bulge);
+}
+
+// The sky in direction dir: every catalogue or field star whose image
+// overlaps it, searched in its cell and the eight around it, plus the
+// Milky Way. starDensity hides field stars above their threshold. Stars
+// spread to cover footprint (the angle the sample covers), keeping their
+// total light, up to the size the neighbouring cells can hold. shift is
+// g = ν_camera / ν_emitted: each star is a blackbody at g·T, weighted by
+// colorShift and dopplerBeaming as for the disk, and the Milky Way's glow
+// brightens as g⁴.
+vec3 stars(vec3 dir, float footprint, float shift) {
+  float size = clamp(0.5 * footprint, STAR_SIZE, STAR_MAX_SIZE);
+  float peak = (STAR_SIZE * STAR_SIZE) / (size * size);
+  vec3 cell = starMapCell(dir);
+  vec2 texel = floor(cell.yz * STAR_MAP_FACE_SIZE);
+  vec3 color = vec3(0.0);
+
+  for (int dy = -1; dy <= 1; dy++) {
+    for (int dx = -1; dx <= 1; dx++) {
+      // Find the neighbouring cell through its centre, which may lie
+      // across the edge of this face
+      vec2 uv = (texel + vec2(dx, dy) + 0.5) / STAR_MAP_FACE_SIZE;
+      vec3 neighbour = starMapCell(starMapDirection(cell.x, uv));
+      vec2 neighbourTexel = min(floor(neighbour.yz * STAR_MAP_FACE_SIZE), STAR_MAP_FACE_SIZE - 1.0);
+      vec4 star = texelFetch(
+        starMap,
+        ivec2(neighbourTexel + vec2(neighbour.x * STAR_MAP_FACE_SIZE, 0.0)),
+        0
+      );
+      if (star.g <= 0.0 || star.a >= starDensity) {
+        continue;
+      }
+
+      vec2 offset = (vec2(floor(star.r / STAR_OFFSET_STEPS), mod(star.r, STAR_OFFSET_STEPS)) + 0.5) /
+        STAR_OFFSET_STEPS;
+      vec3 starDir = normalize(starMapDirection(neighbour.x, (neighbourTexel + offset) / STAR_MAP_FACE_SIZE));
+      float separation = length(dir - starDir) / size;
+      float observed = shift * star.b;
+      float luminance = mix(1.0, blackbodyLuminance(observed) / max(blackbodyLuminance(star.b), 1e-6), dopplerBeaming);
+      color += star.g * peak * luminance * blackbodyChromaticity(mix(star.b, observed, colorShift)) *
+        exp(-0.5 * separation * separation);
+    }
+  }
+
+  float beaming = mix(1.0, pow(shift, 4.0), dopplerBeaming);
+  return color + milkyWay(dir) * min(starDensity, 1.0) * beaming;
+}
@@ -0,0 +1,11 @@
+// Linear HDR radiance to display values: exposure, Reinhard tone mapping,
+// a slight contrast boost and gamma correction
+vec3 tonemap(vec3 color, float gain) {
+  color *= gain;
+  color = color / (color + vec3(1.0));
+
+  // Increase contrast slightly
+  color = pow(color, vec3(1.1));
+
+  return pow(color, vec3(1.0 / 2.2));
+}
@@ -0,0 +1,56 @@
+import type * as THREE from "three";
+import { mapShaderLog } from "@/lib/shaders/preprocess";
+import type { ShaderProgram } from "@/lib/shaders/black-hole";
+
+type ShaderDiagnostics = { log: string; prefix: string };
+
+// three's internal per-material state, which its typings leave opaque
+type MaterialProperties = {
+  currentProgram?: {
+    diagnostics?: {
+      runnable: boolean;
+      vertexShader: ShaderDiagnostics;
+      fragmentShader: ShaderDiagnostics;
+    };
+  };
+};
+
+// three.js logs compile errors against the assembled source, whose line
+// numbers match no file in the repo. Compile the material up front and, if
+// it failed, log the same errors against the chunk files they came from.
+export function reportShaderErrors(
+  renderer: THREE.WebGLRenderer,
+  scene: THREE.Object3D,
+  camera: THREE.Camera,
+  material: THREE.Material,
+  program: ShaderProgram
+) {
+  renderer.compile(scene, camera);
+
+  const { currentProgram } = renderer.properties.get(
+    material
+  ) as MaterialProperties;
+  const diagnostics = currentProgram?.diagnostics;
+  if (!diagnostics || diagnostics.runnable) return false;
+
+  // WebGL2 puts "#version 300 es" in front of three's own prefix
+  const versionLines = renderer.capabilities.isWebGL2 ? 1 : 0;
+  const offset = (prefix: string) =>
+    versionLines + prefix.split("\n").length - 1;
+
+  const reports = [
+    mapShaderLog(
+      diagnostics.vertexShader.log,
+      program.vertex,
+      offset(diagnostics.vertexShader.prefix)
+    ),
+    mapShaderLog(
+      diagnostics.fragmentShader.log,
+      program.fragment,
+      offset(diagnostics.fragmentShader.prefix)
+    ),
+  ].filter((report) => report !== "");
+
+  console.error(`Shader compilation failed:\n\n${reports.join("\n\n")}`);
+  return true;
+}
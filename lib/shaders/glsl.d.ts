@@ -0,0 +1,5 @@
+// GLSL sources are bundled as plain strings (see next.config.mjs)
+declare module "*.glsl" {
+  const source: string;
+  export default source;
+}
@@ -0,0 +1,101 @@
+// Assembles GLSL from named chunks. `#include <name>` pulls in a chunk the
+// first time it is seen (later includes are no-ops, so every chunk can
+// include what it depends on), and defines are injected ahead of the code.
+// Each output line remembers where it came from, so compiler errors can be
+// reported against the chunk file instead of the assembled source.
+
+export type ShaderChunks = Record<string, string>;
+
+// `true` defines a bare flag, `false` leaves it undefined
+export type ShaderDefines = Record<string, number | string | boolean>;
+
+export type SourceLocation = { file: string; line: number };
+
+export type BuiltShader = {
+  code: string;
+  // Origin of each line of `code`
+  sources: SourceLocation[];
+};
+
+const INCLUDE = /^\s*#include\s+<([\w./-]+)>\s*$/;
+
+// A number as a GLSL float literal, e.g. for defines compared with floats
+export const glslFloat = (value: number) =>
+  Number.isInteger(value) ? value.toFixed(1) : String(value);
+
+export const chunkFile = (name: string) => `chunks/${name}.glsl`;
+
+export function buildShader(
+  entry: { file: string; source: string },
+  chunks: ShaderChunks,
+  defines: ShaderDefines = {}
+): BuiltShader {
+  const lines: string[] = [];
+  const sources: SourceLocation[] = [];
+  const included = new Set<string>();
+  const stack: string[] = [];
+
+  for (const [name, value] of Object.entries(defines)) {
+    if (value === false) continue;
+    lines.push(value === true ? `#define ${name}` : `#define ${name} ${value}`);
+    sources.push({ file: "<defines>", line: lines.length });
+  }
+
+  const expand = (file: string, source: string) => {
+    source.split("\n").forEach((text, index) => {
+      const include = INCLUDE.exec(text);
+      if (!include) {
+        lines.push(text);
+        sources.push({ file, line: index + 1 });
+        return;
+      }
+
+      const name = include[1];
+      if (stack.includes(name)) {
+        throw new Error(
+          `Circular shader include: ${[...stack, name].join(" -> ")}`
+        );
+      }
+      if (included.has(name)) return;
+
+      const chunk = chunks[name];
+      if (chunk === undefined) {
+        throw new Error(
+          `Unknown shader chunk <${name}> included from ${file}:${index + 1}`
+        );
+      }
+
+      stack.push(name);
+      expand(chunkFile(name), chunk);
+      stack.pop();
+      included.add(name);
+    });
+  };
+
+  expand(entry.file, entry.source);
+  return { code: lines.join("\n"), sources };
+}
+
+// Rewrite "ERROR: 0:123: ..." locations in a compiler log to the chunk and
+// line they came from, quoting the offending line. `lineOffset` counts the
+// lines the renderer put in front of the built code (version, prefix).
+export function mapShaderLog(log: string, shader: BuiltShader, lineOffset = 0) {
+  const code = shader.code.split("\n");
+
+  return log
+    .split("\n")
+    .map((entry) =>
+      entry.replace(
+        /^(ERROR|WARNING): \d+:(\d+):(.*)$/,
+        (match, level: string, lineNumber: string, message: string) => {
+          const index = Number(lineNumber) - lineOffset - 1;
+          const source = shader.sources[index];
+          if (!source) return match;
+
+          const location = `${source.file}:${source.line}`;
+          return `${level}: ${location}:${message}\n    ${code[index].trim()}`;
+        }
+      )
+    )
+    .join("\n");
+}
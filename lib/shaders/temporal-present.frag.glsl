@@ -0,0 +1,11 @@
+// Draws the reconstructed view with the ray tracer's depth, so objects
+// rasterised afterwards are still hidden behind the disk and bodies
+uniform sampler2D image;
+uniform sampler2D imageDepth;
+
+varying vec2 vUv;
+
+void main() {
+  gl_FragColor = vec4(texture2D(image, vUv).rgb, 1.0);
+  gl_FragDepth = texture2D(imageDepth, vUv).r;
+}
@@ -0,0 +1,58 @@
+// Rebuilds the full-resolution view from the low-resolution ray-traced
+// frame, traced with its pixels shifted by a different sub-pixel jitter
+// each frame. The history is reprojected to where each pixel's surface was
+// on screen last frame (for the sky, its direction), limited to the range
+// of colours around the pixel in the new frame so that moving and
+// animated parts don't smear, and blended with the new frame.
+
+uniform sampler2D current;
+uniform sampler2D currentDepth;
+uniform sampler2D history;
+// Size in pixels of the new frame, and its jitter in normalised device
+// coordinates
+uniform vec2 currentSize;
+uniform vec2 jitter;
+uniform vec3 cameraPos;
+uniform mat4 viewProjectionInverse;
+uniform mat4 previousViewProjection;
+// Weight of the new frame; 1 discards the history
+uniform float blend;
+// 0 while nothing on screen changes, so the history converges to the
+// exact average of the jittered frames
+uniform float clampHistory;
+
+varying vec2 vUv;
+
+void main() {
+  vec2 uv = vUv - 0.5 * jitter;
+  vec3 color = texture2D(current, uv).rgb;
+
+  vec3 low = color;
+  vec3 high = color;
+  for (int y = -1; y <= 1; y++) {
+    for (int x = -1; x <= 1; x++) {
+      vec3 neighbour = texture2D(current, uv + vec2(x, y) / currentSize).rgb;
+      low = min(low, neighbour);
+      high = max(high, neighbour);
+    }
+  }
+
+  // Back from the depth buffer to the world, then onto last frame's screen.
+  // The sky lies at infinity, where only direction counts.
+  float depth = texture2D(currentDepth, uv).r;
+  vec4 world = viewProjectionInverse * vec4(vUv * 2.0 - 1.0, depth * 2.0 - 1.0, 1.0);
+  world.xyz /= world.w;
+  vec4 previous = depth < 1.0
+    ? previousViewProjection * vec4(world.xyz, 1.0)
+    : previousViewProjection * vec4(world.xyz - cameraPos, 0.0);
+  vec2 previousUv = previous.xy / previous.w * 0.5 + 0.5;
+  bool seen = previous.w > 0.0 &&
+    all(greaterThanEqual(previousUv, vec2(0.0))) &&
+    all(lessThanEqual(previousUv, vec2(1.0)));
+
+  vec3 past = texture2D(history, previousUv).rgb;
+  if (clampHistory > 0.5) {
+    past = clamp(past, low, high);
+  }
+  gl_FragColor = vec4(seen ? mix(past, color, blend) : color, 1.0);
+}
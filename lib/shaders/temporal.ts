@@ -0,0 +1,34 @@
+import type { ShaderProgram } from "@/lib/shaders/black-hole";
+import { SHADER_CHUNKS } from "@/lib/shaders/chunks";
+import { buildShader } from "@/lib/shaders/preprocess";
+import vertexShader from "@/lib/shaders/screen.vert.glsl";
+import presentShader from "@/lib/shaders/temporal-present.frag.glsl";
+import resolveShader from "@/lib/shaders/temporal-resolve.frag.glsl";
+
+// The passes of the temporal upscaler in lib/temporal-upscaler.ts: resolve
+// blends each new frame into the history, present draws the result
+export function buildTemporalShaders(): Record<
+  "resolve" | "present",
+  ShaderProgram
+> {
+  const vertex = buildShader(
+    { file: "screen.vert.glsl", source: vertexShader },
+    SHADER_CHUNKS
+  );
+  return {
+    resolve: {
+      vertex,
+      fragment: buildShader(
+        { file: "temporal-resolve.frag.glsl", source: resolveShader },
+        SHADER_CHUNKS
+      ),
+    },
+    present: {
+      vertex,
+      fragment: buildShader(
+        { file: "temporal-present.frag.glsl", source: presentShader },
+        SHADER_CHUNKS
+      ),
+    },
+  };
+}
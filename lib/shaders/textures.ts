@@ -0,0 +1,61 @@
+import * as THREE from "three";
+import {
+  BLACKBODY_LUT_SIZE,
+  createBlackbodyLut,
+} from "@/lib/physics/blackbody";
+import { createStarMap, fillStarMap } from "@/lib/stars/star-map";
+
+// Baked before each build by scripts/bake-star-map.ts
+export const STAR_MAP_URL = "/star-map.bin";
+
+// The blackbody table as a 1D texture. Half floats, because every WebGL2
+// device filters them linearly, while full floats need an extension.
+export function createBlackbodyTexture() {
+  const lut = createBlackbodyLut();
+  const data = new Uint16Array(lut.length);
+  lut.forEach((value, i) => {
+    data[i] = THREE.DataUtils.toHalfFloat(value);
+  });
+
+  const texture = new THREE.DataTexture(
+    data,
+    BLACKBODY_LUT_SIZE,
+    1,
+    THREE.RGBAFormat,
+    THREE.HalfFloatType
+  );
+  texture.minFilter = THREE.LinearFilter;
+  texture.magFilter = THREE.LinearFilter;
+  texture.needsUpdate = true;
+  return texture;
+}
+
+// A star-cell map holding baked `cells`, empty without them. Full floats
+// with nearest filtering: cells are read whole, never blended.
+export function createStarMapTexture(cells = new Float32Array()) {
+  const { data, width, height } = createStarMap([]);
+  fillStarMap(data, cells);
+
+  const texture = new THREE.DataTexture(
+    data,
+    width,
+    height,
+    THREE.RGBAFormat,
+    THREE.FloatType
+  );
+  texture.minFilter = THREE.NearestFilter;
+  texture.magFilter = THREE.NearestFilter;
+  texture.needsUpdate = true;
+  return texture;
+}
+
+// The baked catalogue and synthetic field, fetched from the site
+export async function loadStarMapTexture() {
+  const response = await fetch(STAR_MAP_URL);
+  if (!response.ok) {
+    throw new Error(
+      `${STAR_MAP_URL}: ${response.status} ${response.statusText}`
+    );
+  }
+  return createStarMapTexture(new Float32Array(await response.arrayBuffer()));
+}
@@ -0,0 +1,144 @@
+import * as THREE from "three";
+import { EXRLoader } from "three/examples/jsm/loaders/EXRLoader.js";
+import { RGBELoader } from "three/examples/jsm/loaders/RGBELoader.js";
+
+// User-supplied backgrounds for the ray tracer: one equirectangular image
+// (PNG, JPEG, WebP, Radiance HDR or OpenEXR) or six cube faces. Escaping
+// rays sample them in place of the star catalogue, so the image is lensed
+// like the stars would be.
+
+export type SkyTexture = {
+  kind: "equirectangular" | "cube";
+  texture: THREE.Texture;
+  // Width in texels of the image, or of one cube face, for mip selection
+  size: number;
+  // 8-bit images hold sRGB values; the shader decodes them to linear light
+  srgb: boolean;
+  // Shown in the control panel
+  name: string;
+};
+
+// Cube faces in three's order; files are matched by these name stems, e.g.
+// px.png or sky_negz.jpg
+const CUBE_FACES = [
+  ["px", "posx"],
+  ["nx", "negx"],
+  ["py", "posy"],
+  ["ny", "negy"],
+  ["pz", "posz"],
+  ["nz", "negz"],
+] as const;
+
+const extensionOf = (file: File) =>
+  file.name.slice(file.name.lastIndexOf(".") + 1).toLowerCase();
+
+const stemOf = (file: File) =>
+  file.name.slice(0, file.name.lastIndexOf(".")).toLowerCase();
+
+const IMAGE_EXTENSIONS = ["png", "jpg", "jpeg", "webp"];
+
+// Load through an object URL, released once the loader is done with it
+async function withObjectUrls<T>(
+  files: File[],
+  load: (urls: string[]) => Promise<T>
+) {
+  const urls = files.map((file) => URL.createObjectURL(file));
+  try {
+    return await load(urls);
+  } finally {
+    urls.forEach((url) => URL.revokeObjectURL(url));
+  }
+}
+
+async function loadEquirectangular(file: File): Promise<SkyTexture> {
+  const extension = extensionOf(file);
+  let texture: THREE.Texture;
+  let srgb = false;
+
+  if (extension === "hdr") {
+    texture = await withObjectUrls([file], ([url]) =>
+      new RGBELoader().loadAsync(url)
+    );
+  } else if (extension === "exr") {
+    texture = await withObjectUrls([file], ([url]) =>
+      new EXRLoader().loadAsync(url)
+    );
+  } else if (IMAGE_EXTENSIONS.includes(extension)) {
+    texture = await withObjectUrls([file], ([url]) =>
+      new THREE.TextureLoader().loadAsync(url)
+    );
+    srgb = true;
+  } else {
+    throw new Error(
+      `Unsupported sky image "${file.name}": use PNG, JPEG, WebP, HDR or EXR`
+    );
+  }
+
+  const { width, height } = texture.image as { width: number; height: number };
+  if (Math.abs(width / height - 2) > 0.05) {
+    texture.dispose();
+    throw new Error(
+      `"${file.name}" is ${width}×${height}; an equirectangular sky must be twice as wide as it is tall`
+    );
+  }
+
+  // The HDR loaders switch mipmaps off; the shader picks levels by how
+  // much sky each pixel covers, so every level is needed
+  texture.generateMipmaps = true;
+  texture.minFilter = THREE.LinearMipmapLinearFilter;
+  texture.magFilter = THREE.LinearFilter;
+  texture.wrapS = THREE.RepeatWrapping;
+  texture.needsUpdate = true;
+
+  return {
+    kind: "equirectangular",
+    texture,
+    size: width,
+    srgb,
+    name: file.name,
+  };
+}
+
+async function loadCube(files: File[]): Promise<SkyTexture> {
+  const ordered = CUBE_FACES.map((stems) => {
+    const matches = files.filter((file) =>
+      stems.some((stem) => new RegExp(`(^|[^a-z])${stem}$`).test(stemOf(file)))
+    );
+    if (matches.length !== 1) {
+      throw new Error(
+        `Expected one cube face named ${stems.join(" or ")}, found ${
+          matches.length
+        }`
+      );
+    }
+    return matches[0];
+  });
+
+  const unsupported = ordered.find(
+    (file) => !IMAGE_EXTENSIONS.includes(extensionOf(file))
+  );
+  if (unsupported) {
+    throw new Error(
+      `Unsupported cube face "${unsupported.name}": cube maps must be PNG, JPEG or WebP`
+    );
+  }
+
+  const texture = await withObjectUrls(ordered, (urls) =>
+    new THREE.CubeTextureLoader().loadAsync(urls)
+  );
+  texture.generateMipmaps = true;
+  texture.minFilter = THREE.LinearMipmapLinearFilter;
+  texture.needsUpdate = true;
+
+  const size = (texture.images[0] as HTMLImageElement).width;
+  return { kind: "cube", texture, size, srgb: true, name: "Cube map" };
+}
+
+// One file is an equirectangular image, six are the faces of a cube map
+export function loadSkyTexture(files: File[]) {
+  if (files.length === 1) return loadEquirectangular(files[0]);
+  if (files.length === 6) return loadCube(files);
+  throw new Error(
+    `Drop one equirectangular image or six cube faces, not ${files.length} files`
+  );
+}
@@ -0,0 +1,73 @@
+import { describe, expect, it } from "vitest";
+import brightStars from "./bright-stars.dat";
+import {
+  colorIndexTemperature,
+  equatorialToDirection,
+  galacticToEquatorial,
+  parseBrightStarCatalog,
+} from "./catalog";
+
+const degrees = (radians: number) => (radians * 180) / Math.PI;
+
+describe("parseBrightStarCatalog", () => {
+  const catalog = parseBrightStarCatalog(brightStars);
+
+  it("reads Polaris's J2000 position and photometry", () => {
+    const polaris = catalog.find((star) => star.name === "Alp UMi");
+    expect(polaris).toMatchObject({ id: 424, magnitude: 2.02 });
+    // 02h 31m 49.1s, +89° 15′ 51″
+    expect(degrees(polaris!.rightAscension)).toBeCloseTo(37.955, 2);
+    expect(degrees(polaris!.declination)).toBeCloseTo(89.264, 3);
+  });
+
+  it("puts Polaris on the scene's +y axis", () => {
+    const polaris = catalog.find((star) => star.name === "Alp UMi")!;
+    const [x, y, z] = equatorialToDirection(
+      polaris.rightAscension,
+      polaris.declination
+    );
+    expect(y).toBeGreaterThan(0.9999);
+    expect(Math.hypot(x, z)).toBeLessThan(0.013);
+  });
+});
+
+describe("equatorialToDirection", () => {
+  it("puts the vernal equinox on +x and 6h on −z", () => {
+    const equinox = equatorialToDirection(0, 0);
+    const sixHours = equatorialToDirection(Math.PI / 2, 0);
+    [1, 0, 0].forEach((value, i) => expect(equinox[i]).toBeCloseTo(value));
+    [0, 0, -1].forEach((value, i) => expect(sixHours[i]).toBeCloseTo(value));
+  });
+});
+
+describe("galacticToEquatorial", () => {
+  it("puts the galactic centre at RA 266.40°, dec −28.94°", () => {
+    const { rightAscension, declination } = galacticToEquatorial(0, 0);
+    expect(degrees(rightAscension)).toBeCloseTo(266.4, 1);
+    expect(degrees(declination)).toBeCloseTo(-28.94, 1);
+  });
+
+  it("puts the north galactic pole at RA 192.86°, dec +27.13°", () => {
+    const { rightAscension, declination } = galacticToEquatorial(
+      1.2,
+      Math.PI / 2
+    );
+    expect(degrees(rightAscension)).toBeCloseTo(192.86, 1);
+    expect(degrees(declination)).toBeCloseTo(27.13, 1);
+  });
+});
+
+describe("colorIndexTemperature", () => {
+  it("gives the Sun's temperature for its B−V of 0.65", () => {
+    expect(colorIndexTemperature(0.65)).toBeCloseTo(5778, -1);
+  });
+
+  it("runs hotter for bluer stars", () => {
+    expect(colorIndexTemperature(-0.3)).toBeGreaterThan(
+      colorIndexTemperature(0)
+    );
+    expect(colorIndexTemperature(0)).toBeGreaterThan(
+      colorIndexTemperature(1.5)
+    );
+  });
+});
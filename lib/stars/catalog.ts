@@ -0,0 +1,133 @@
+// Bright-star catalogue in the fixed-width format of the Yale Bright Star
+// Catalogue, 5th revised edition (Hoffleit & Warren 1991, VizieR V/50
+// `bsc5.dat`). bright-stars.dat bundles the brightest constellation stars
+// in that format; the full catalogue can replace it unchanged.
+
+import type { Vec3 } from "@/lib/physics/vec3";
+
+export type CatalogStar = {
+  // Harvard Revised (HR) number
+  id: number;
+  // Flamsteed and Bayer designation, e.g. "Alp CMa"
+  name: string;
+  // J2000 equatorial coordinates in radians
+  rightAscension: number;
+  declination: number;
+  // Visual magnitude and B−V colour index
+  magnitude: number;
+  colorIndex: number;
+};
+
+// 1-based, inclusive column ranges from the catalogue's ReadMe
+const COLUMNS = {
+  id: [1, 4],
+  name: [5, 14],
+  raHours: [76, 77],
+  raMinutes: [78, 79],
+  raSeconds: [80, 83],
+  decSign: [84, 84],
+  decDegrees: [85, 86],
+  decMinutes: [87, 88],
+  decSeconds: [89, 90],
+  magnitude: [103, 107],
+  colorIndex: [110, 114],
+} as const;
+
+type Column = keyof typeof COLUMNS;
+
+const field = (line: string, column: Column) => {
+  const [start, end] = COLUMNS[column];
+  return line.slice(start - 1, end).trim();
+};
+
+// Parses the catalogue text. Entries without a J2000 position or a visual
+// magnitude (novae and non-stellar objects later dropped from the
+// catalogue) are skipped; a missing colour index is taken as 0 (white).
+export function parseBrightStarCatalog(text: string): CatalogStar[] {
+  const stars: CatalogStar[] = [];
+
+  text.split(/\r?\n/).forEach((line, index) => {
+    if (!line.trim()) return;
+    if (!field(line, "raHours") || !field(line, "magnitude")) return;
+
+    const number = (column: Column) => {
+      const value = Number(field(line, column) || 0);
+      if (!Number.isFinite(value)) {
+        throw new Error(
+          `Bad ${column} "${field(line, column)}" on catalogue line ${
+            index + 1
+          }`
+        );
+      }
+      return value;
+    };
+
+    const hours =
+      number("raHours") + number("raMinutes") / 60 + number("raSeconds") / 3600;
+    const degrees =
+      number("decDegrees") +
+      number("decMinutes") / 60 +
+      number("decSeconds") / 3600;
+    const sign = field(line, "decSign") === "-" ? -1 : 1;
+
+    stars.push({
+      id: number("id"),
+      name: field(line, "name"),
+      rightAscension: (hours / 12) * Math.PI,
+      declination: ((sign * degrees) / 180) * Math.PI,
+      magnitude: number("magnitude"),
+      colorIndex: number("colorIndex"),
+    });
+  });
+
+  return stars;
+}
+
+// Unit vector towards equatorial coordinates in scene space: the celestial
+// north pole along +y and the vernal equinox along +x. Right ascension runs
+// anticlockwise seen from the north, so the sky isn't mirrored from inside.
+export function equatorialToDirection(
+  rightAscension: number,
+  declination: number
+): Vec3 {
+  const cosDec = Math.cos(declination);
+  return [
+    cosDec * Math.cos(rightAscension),
+    Math.sin(declination),
+    -cosDec * Math.sin(rightAscension),
+  ];
+}
+
+// Rows are the galactic x (towards the centre), y (towards l = 90°) and z
+// (north galactic pole) axes in J2000 equatorial Cartesian coordinates
+const GALACTIC_AXES: [Vec3, Vec3, Vec3] = [
+  [-0.0548755604, -0.8734370902, -0.4838350155],
+  [0.4941094279, -0.44482963, 0.7469822445],
+  [-0.867666149, -0.1980763734, 0.4559837762],
+];
+
+// Galactic longitude and latitude (radians) to J2000 equatorial coordinates
+export function galacticToEquatorial(longitude: number, latitude: number) {
+  const local: Vec3 = [
+    Math.cos(latitude) * Math.cos(longitude),
+    Math.cos(latitude) * Math.sin(longitude),
+    Math.sin(latitude),
+  ];
+  const [x, y, z] = [0, 1, 2].map((i) =>
+    GALACTIC_AXES.reduce((sum, axis, j) => sum + axis[i] * local[j], 0)
+  );
+  const rightAscension = Math.atan2(y, x);
+  return {
+    rightAscension:
+      rightAscension < 0 ? rightAscension + 2 * Math.PI : rightAscension,
+    declination: Math.asin(Math.max(-1, Math.min(1, z))),
+  };
+}
+
+// Effective temperature in kelvin from the B−V colour index, treating the
+// star as a blackbody (Ballesteros 2012). The fit holds for ordinary
+// stars, so the index is clamped to their range.
+export function colorIndexTemperature(colorIndex: number) {
+  const index = Math.max(-0.4, Math.min(2, colorIndex));
+  return 4600 * (1 / (0.92 * index + 1.7) + 1 / (0.92 * index + 0.62));
+}
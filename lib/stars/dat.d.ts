@@ -0,0 +1,5 @@
+// Catalogue files are bundled as plain strings (see next.config.mjs)
+declare module "*.dat" {
+  const source: string;
+  export default source;
+}
@@ -0,0 +1,91 @@
+import { describe, expect, it } from "vitest";
+import { dot, normalize, type Vec3 } from "@/lib/physics/vec3";
+import {
+  createStarMap,
+  cubeCell,
+  fieldMapStars,
+  fillStarMap,
+  STAR_MAP_FACE_SIZE,
+  starMapCells,
+} from "./star-map";
+
+// Inverse of cubeCell, as starMapDirection in the starfield shader chunk
+const cellDirection = (face: number, u: number, v: number): Vec3 => {
+  const [s, t] = [2 * u - 1, 2 * v - 1];
+  const axis = face < 2 ? 0 : face < 4 ? 1 : 2;
+  const sign = face % 2 === 0 ? 1 : -1;
+  const direction: Vec3 =
+    axis === 0 ? [sign, t, s] : axis === 1 ? [s, sign, t] : [s, t, sign];
+  return normalize(direction);
+};
+
+// One on each face
+const directions = (
+  [
+    [1, 0.2, -0.3],
+    [-0.7, 0.1, 0.5],
+    [0.3, 0.9, -0.2],
+    [0.1, -1, 0.4],
+    [-0.4, 0.2, 0.8],
+    [0.5, -0.6, -0.9],
+  ] satisfies Vec3[]
+).map(normalize);
+
+describe("cubeCell", () => {
+  it.each(directions)("round-trips %s", (...direction) => {
+    const { face, u, v } = cubeCell(direction);
+    expect(face).toBeGreaterThanOrEqual(0);
+    expect(face).toBeLessThan(6);
+    const back = cellDirection(face, u, v);
+    direction.forEach((value, i) => expect(back[i]).toBeCloseTo(value, 12));
+  });
+
+  it("covers each face once", () => {
+    const faces = directions.map((direction) => cubeCell(direction).face);
+    expect(new Set(faces).size).toBe(6);
+  });
+});
+
+describe("createStarMap", () => {
+  it("stores a star's position to within a fraction of its cell", () => {
+    const size = STAR_MAP_FACE_SIZE;
+    const { data, width } = createStarMap(
+      directions.map((direction) => ({
+        direction,
+        brightness: 1,
+        temperature: 5778,
+        threshold: 0,
+      }))
+    );
+
+    for (const direction of directions) {
+      const { face, u, v } = cubeCell(direction);
+      const column = Math.floor(u * size);
+      const row = Math.floor(v * size);
+      const index = (row * width + face * size + column) * 4;
+      expect(data[index + 2]).toBe(5778);
+
+      // Unpacked as the shader does, at the centre of the offset step
+      const offsetU = (Math.floor(data[index] / 4096) + 0.5) / 4096;
+      const offsetV = ((data[index] % 4096) + 0.5) / 4096;
+      const stored = cellDirection(
+        face,
+        (column + offsetU) / size,
+        (row + offsetV) / size
+      );
+      expect(Math.acos(Math.min(1, dot(stored, direction)))).toBeLessThan(
+        2 / (size * 4096)
+      );
+    }
+  });
+});
+
+describe("starMapCells", () => {
+  it("bakes the occupied cells and fills them back in", () => {
+    const map = createStarMap(fieldMapStars());
+    const { data } = createStarMap([]);
+    fillStarMap(data, starMapCells(map));
+    // Element by element: toEqual is slow on a map this size
+    expect(data.every((value, i) => value === map.data[i])).toBe(true);
+  });
+});
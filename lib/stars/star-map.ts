@@ -0,0 +1,187 @@
+// Background stars baked into a cube map for the shader. Rather than
+// painting stars into pixels, each texel is a cell of the sky holding at
+// most one star: its exact position within the cell, brightness,
+// temperature and the star density at which it appears. The shader draws
+// every star near a ray analytically, so stars stay sharp and steady
+// however the lensing stretches the sky.
+//
+// The six faces sit side by side in one STAR_MAP_FACE_SIZE × 6 by
+// STAR_MAP_FACE_SIZE texture, in the order +x, −x, +y, −y, +z, −z.
+//
+// `yarn bake:stars` (run before every build) bakes the map into
+// public/star-map.bin, listing only the occupied cells, so the browser
+// fetches the stars instead of computing them on each load.
+
+import { normalize, type Vec3 } from "@/lib/physics/vec3";
+import {
+  colorIndexTemperature,
+  equatorialToDirection,
+  galacticToEquatorial,
+  type CatalogStar,
+} from "@/lib/stars/catalog";
+
+export const STAR_MAP_FACE_SIZE = 256;
+
+// Highest star density the map holds faint stars for
+export const MAX_STAR_DENSITY = 5;
+
+// Synthetic faint stars per unit of star density, filling in below the
+// bundled catalogue's limit
+const FIELD_STARS_PER_DENSITY = 1500;
+const FIELD_MIN_MAGNITUDE = 3.5;
+const FIELD_MAX_MAGNITUDE = 7;
+
+// Sub-cell positions are packed into one float as two 12-bit integers
+const OFFSET_STEPS = 4096;
+
+export type MapStar = {
+  direction: Vec3;
+  // Peak brightness, 1 for a magnitude 1 star
+  brightness: number;
+  temperature: number;
+  // Star density from which the star shows; 0 for catalogue stars
+  threshold: number;
+};
+
+// Cube face (0–5) and position on it in [0, 1]² for a direction. The
+// shader's starMapCell is the same mapping.
+export function cubeCell(direction: Vec3) {
+  const [x, y, z] = direction;
+  const [ax, ay, az] = [Math.abs(x), Math.abs(y), Math.abs(z)];
+
+  let face: number;
+  let s: number;
+  let t: number;
+  if (ax >= ay && ax >= az) {
+    face = x > 0 ? 0 : 1;
+    [s, t] = [z / ax, y / ax];
+  } else if (ay >= az) {
+    face = y > 0 ? 2 : 3;
+    [s, t] = [x / ay, z / ay];
+  } else {
+    face = z > 0 ? 4 : 5;
+    [s, t] = [x / az, y / az];
+  }
+  return { face, u: (s + 1) / 2, v: (t + 1) / 2 };
+}
+
+// Brightness on a logarithmic scale, compressed (half the 0.4 of the
+// magnitude scale) so faint stars stay visible next to Sirius
+export const magnitudeBrightness = (magnitude: number) =>
+  10 ** (-0.2 * (magnitude - 1));
+
+export function catalogMapStars(catalog: CatalogStar[]): MapStar[] {
+  return catalog.map((star) => ({
+    direction: equatorialToDirection(star.rightAscension, star.declination),
+    brightness: magnitudeBrightness(star.magnitude),
+    temperature: colorIndexTemperature(star.colorIndex),
+    threshold: 0,
+  }));
+}
+
+// Mulberry32, so the synthetic field is the same on every load
+function seededRandom(seed: number) {
+  let state = seed >>> 0;
+  return () => {
+    state = (state + 0x6d2b79f5) >>> 0;
+    let t = state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+}
+
+// Synthetic stars fainter than the catalogue, crowded towards the galactic
+// plane and centre like the real sky. Counts grow as 10^(0.5m), and colours
+// split between hot main-sequence stars and cool giants.
+export function fieldMapStars(seed = 1): MapStar[] {
+  const random = seededRandom(seed);
+  const count = FIELD_STARS_PER_DENSITY * MAX_STAR_DENSITY;
+  const faintest = 10 ** (0.5 * FIELD_MAX_MAGNITUDE);
+  const brightest = 10 ** (0.5 * FIELD_MIN_MAGNITUDE);
+  const stars: MapStar[] = [];
+
+  while (stars.length < count) {
+    // Uniform on the sphere, then thinned away from the Milky Way
+    const longitude = 2 * Math.PI * random();
+    const latitude = Math.asin(2 * random() - 1);
+    const weight =
+      (1 + 4 * Math.exp(-Math.abs(latitude) / 0.17)) *
+      (1 + 0.5 * Math.cos(longitude));
+    if (random() * 7.5 > weight) continue;
+
+    const { rightAscension, declination } = galacticToEquatorial(
+      longitude,
+      latitude
+    );
+    const magnitude =
+      2 * Math.log10(brightest + random() * (faintest - brightest));
+    const colorIndex =
+      random() < 0.45
+        ? 0.05 + 0.3 * (random() - 0.5)
+        : 1.1 + 0.5 * (random() - 0.5);
+
+    stars.push({
+      direction: equatorialToDirection(rightAscension, declination),
+      brightness: magnitudeBrightness(magnitude),
+      temperature: colorIndexTemperature(colorIndex),
+      threshold: MAX_STAR_DENSITY * (1 - random()),
+    });
+  }
+  return stars;
+}
+
+// RGBA floats: packed sub-cell offset, brightness, temperature and
+// threshold. Empty cells have zero brightness. Where two stars share a
+// cell the brighter one wins.
+export function createStarMap(stars: MapStar[]) {
+  const size = STAR_MAP_FACE_SIZE;
+  const width = size * 6;
+  const data = new Float32Array(width * size * 4);
+
+  for (const star of stars) {
+    const { face, u, v } = cubeCell(normalize(star.direction));
+    const column = Math.min(Math.floor(u * size), size - 1);
+    const row = Math.min(Math.floor(v * size), size - 1);
+    const index = (row * width + face * size + column) * 4;
+    if (data[index + 1] >= star.brightness) continue;
+
+    const offsetU = Math.min(
+      Math.floor((u * size - column) * OFFSET_STEPS),
+      OFFSET_STEPS - 1
+    );
+    const offsetV = Math.min(
+      Math.floor((v * size - row) * OFFSET_STEPS),
+      OFFSET_STEPS - 1
+    );
+    data[index] = offsetU * OFFSET_STEPS + offsetV;
+    data[index + 1] = star.brightness;
+    data[index + 2] = star.temperature;
+    data[index + 3] = star.threshold;
+  }
+
+  return { data, width, height: size };
+}
+
+// Values per occupied cell in the baked file: the cell's index followed by
+// its four texel values
+export const STAR_MAP_CELL_VALUES = 5;
+
+// The occupied cells of a map, for baking
+export function starMapCells({ data }: { data: Float32Array }) {
+  const cells: number[] = [];
+  for (let index = 0; index < data.length; index += 4) {
+    if (data[index + 1] > 0) {
+      cells.push(index / 4, ...data.subarray(index, index + 4));
+    }
+  }
+  return new Float32Array(cells);
+}
+
+// Writes baked cells back into a map's texel data
+export function fillStarMap(data: Float32Array, cells: Float32Array) {
+  const record = STAR_MAP_CELL_VALUES;
+  for (let i = 0; i + record <= cells.length; i += record) {
+    data.set(cells.subarray(i + 1, i + record), cells[i] * 4);
+  }
+}
@@ -0,0 +1,158 @@
+import * as THREE from "three";
+import type { ShaderProgram } from "@/lib/shaders/black-hole";
+import { buildTemporalShaders } from "@/lib/shaders/temporal";
+
+// Renders the ray tracer at a fraction of the screen's resolution and
+// rebuilds the full resolution over time: each frame is traced with a
+// different sub-pixel jitter and blended into a full-resolution history,
+// reprojected through the ray tracer's depth as the camera moves. Held
+// still, the history becomes a supersampled image of the view.
+
+export const TEMPORAL_SHADERS = buildTemporalShaders();
+
+// Most frames the history averages over while anything on screen changes,
+// so stale colours fade quickly, and once everything is still
+export const MOVING_HISTORY = 8;
+export const STILL_HISTORY = 64;
+
+export type TemporalFrame = {
+  // Fraction of the drawing buffer's width and height to trace
+  scale: number;
+  // Sub-pixel offset of this frame's rays, in traced pixels
+  jitter: [number, number];
+  // Whether the view is the same as last frame's: camera, scene and time
+  still: boolean;
+};
+
+export type TemporalUpscaler = {
+  // Trace `rays` through `camera` into the low-resolution target, with
+  // `rayJitter` (the ray shader's uniform) set to the jitter in normalised
+  // device coordinates, then blend and draw the result to the current
+  // render target
+  render: (
+    rays: THREE.Object3D,
+    rayJitter: THREE.Vector2,
+    camera: THREE.Camera,
+    frame: TemporalFrame
+  ) => void;
+  dispose: () => void;
+};
+
+const screenPass = (
+  { vertex, fragment }: ShaderProgram,
+  uniforms: Record<string, THREE.IUniform>,
+  depth: Partial<THREE.ShaderMaterialParameters>
+) =>
+  new THREE.ShaderMaterial({
+    uniforms,
+    vertexShader: vertex.code,
+    fragmentShader: fragment.code,
+    ...depth,
+  });
+
+export function createTemporalUpscaler(
+  renderer: THREE.WebGLRenderer
+): TemporalUpscaler {
+  // Half floats, so slow blends into the history don't band
+  const traced = new THREE.WebGLRenderTarget(1, 1, {
+    type: THREE.HalfFloatType,
+  });
+  const tracedDepth = new THREE.DepthTexture(1, 1);
+  traced.depthTexture = tracedDepth;
+  let histories = [0, 1].map(
+    () =>
+      new THREE.WebGLRenderTarget(1, 1, {
+        type: THREE.HalfFloatType,
+        depthBuffer: false,
+      })
+  );
+
+  const resolve = screenPass(
+    TEMPORAL_SHADERS.resolve,
+    {
+      current: { value: traced.texture },
+      currentDepth: { value: tracedDepth },
+      history: { value: null },
+      currentSize: { value: new THREE.Vector2() },
+      jitter: { value: new THREE.Vector2() },
+      cameraPos: { value: new THREE.Vector3() },
+      viewProjectionInverse: { value: new THREE.Matrix4() },
+      previousViewProjection: { value: new THREE.Matrix4() },
+      blend: { value: 1.0 },
+      clampHistory: { value: 1.0 },
+    },
+    { depthTest: false, depthWrite: false }
+  );
+  // Depth writes need the depth test on, so it always passes instead
+  const present = screenPass(
+    TEMPORAL_SHADERS.present,
+    {
+      image: { value: null },
+      imageDepth: { value: tracedDepth },
+    },
+    { depthFunc: THREE.AlwaysDepth }
+  );
+
+  const quad = new THREE.Mesh(new THREE.PlaneGeometry(2, 2), resolve);
+  quad.frustumCulled = false;
+
+  const size = new THREE.Vector2();
+  const viewProjection = new THREE.Matrix4();
+  // Frames in the history so far
+  let frames = 0;
+
+  return {
+    render(rays, rayJitter, camera, { scale, jitter, still }) {
+      const output = renderer.getRenderTarget();
+
+      renderer.getDrawingBufferSize(size);
+      if (histories[0].width !== size.x || histories[0].height !== size.y) {
+        histories.forEach((history) => history.setSize(size.x, size.y));
+        frames = 0;
+      }
+      const width = Math.max(1, Math.round(size.x * scale));
+      const height = Math.max(1, Math.round(size.y * scale));
+      if (traced.width !== width || traced.height !== height) {
+        traced.setSize(width, height);
+      }
+
+      rayJitter.set((2 * jitter[0]) / width, (2 * jitter[1]) / height);
+      renderer.setRenderTarget(traced);
+      renderer.render(rays, camera);
+
+      frames = Math.min(frames + 1, still ? STILL_HISTORY : MOVING_HISTORY);
+      viewProjection.multiplyMatrices(
+        camera.projectionMatrix,
+        camera.matrixWorldInverse
+      );
+      const { uniforms } = resolve;
+      uniforms.history.value = histories[0].texture;
+      uniforms.currentSize.value.set(width, height);
+      uniforms.jitter.value.copy(rayJitter);
+      uniforms.cameraPos.value.setFromMatrixPosition(camera.matrixWorld);
+      uniforms.viewProjectionInverse.value.copy(viewProjection).invert();
+      uniforms.blend.value = 1 / frames;
+      uniforms.clampHistory.value = still ? 0.0 : 1.0;
+      quad.material = resolve;
+      renderer.setRenderTarget(histories[1]);
+      renderer.render(quad, camera);
+
+      present.uniforms.image.value = histories[1].texture;
+      quad.material = present;
+      renderer.setRenderTarget(output);
+      renderer.render(quad, camera);
+
+      uniforms.previousViewProjection.value.copy(viewProjection);
+      histories = [histories[1], histories[0]];
+    },
+
+    dispose() {
+      tracedDepth.dispose();
+      traced.dispose();
+      histories.forEach((history) => history.dispose());
+      quad.geometry.dispose();
+      resolve.dispose();
+      present.dispose();
+    },
+  };
+}
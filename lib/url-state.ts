@@ -0,0 +1,134 @@
+import {
+  defaultSceneConfig,
+  validateSceneConfig,
+  type CameraPose,
+  type SceneConfig,
+} from "@/lib/scene-config";
+
+// Serialises what's on screen into a URL hash such as
+//   #cam=1.2566,0.7854,30&t=12.40&scene=eyJibGFja0hvbGUiOnsic3BpbiI6MC45fX0
+// The camera pose and time stay readable; the scene is base64url JSON holding
+// only the fields that differ from the defaults, so links stay short.
+
+export type ViewState = {
+  camera: CameraPose;
+  time: number;
+  config: SceneConfig;
+};
+
+export type DecodedViewState = {
+  // Present only when the hash carried a camera pose or scene
+  config?: SceneConfig;
+  time?: number;
+  // Human-readable problems with the hash, e.g. "t: Expected a number"
+  errors: string[];
+};
+
+const isPlainObject = (value: unknown): value is Record<string, unknown> =>
+  typeof value === "object" && value !== null && !Array.isArray(value);
+
+// Fields of `value` that differ from `defaults`; arrays compare as a whole
+function diffFromDefaults(value: unknown, defaults: unknown): unknown {
+  if (isPlainObject(value) && isPlainObject(defaults)) {
+    const diff: Record<string, unknown> = {};
+
+    for (const [key, entry] of Object.entries(value)) {
+      const changed = diffFromDefaults(entry, defaults[key]);
+      if (changed !== undefined) diff[key] = changed;
+    }
+
+    return Object.keys(diff).length > 0 ? diff : undefined;
+  }
+
+  return JSON.stringify(value) === JSON.stringify(defaults) ? undefined : value;
+}
+
+const toBase64Url = (text: string) => {
+  const bytes = new TextEncoder().encode(text);
+  const binary = Array.from(bytes, (byte) => String.fromCharCode(byte)).join(
+    ""
+  );
+  return btoa(binary)
+    .replace(/\+/g, "-")
+    .replace(/\//g, "_")
+    .replace(/=+$/, "");
+};
+
+const fromBase64Url = (encoded: string) => {
+  const binary = atob(encoded.replace(/-/g, "+").replace(/_/g, "/"));
+  const bytes = Uint8Array.from(binary, (char) => char.charCodeAt(0));
+  return new TextDecoder().decode(bytes);
+};
+
+export function encodeViewState({ camera, time, config }: ViewState): string {
+  // Every value is URL-safe as written, so the hash is assembled by hand to
+  // keep the commas in "cam" readable rather than percent-encoded
+  const pose = [camera.phi, camera.theta, camera.distance]
+    .map((value) => Number(value.toFixed(4)))
+    .join(",");
+  const parts = [`cam=${pose}`, `t=${time.toFixed(2)}`];
+
+  // The pose travels in "cam", so leave it out of the scene diff
+  const { phi, theta, distance } = defaultSceneConfig.camera;
+  const scene = diffFromDefaults(
+    { ...config, camera: { ...config.camera, phi, theta, distance } },
+    defaultSceneConfig
+  );
+  if (scene !== undefined) {
+    parts.push(`scene=${toBase64Url(JSON.stringify(scene))}`);
+  }
+
+  return parts.join("&");
+}
+
+export function decodeViewState(hash: string): DecodedViewState {
+  const params = new URLSearchParams(hash.replace(/^#/, ""));
+  const errors: string[] = [];
+  let scene: Record<string, unknown> = {};
+  let time: number | undefined;
+
+  const encodedScene = params.get("scene");
+  if (encodedScene) {
+    try {
+      const parsed = JSON.parse(fromBase64Url(encodedScene));
+      if (isPlainObject(parsed)) {
+        scene = parsed;
+      } else {
+        errors.push("scene: Expected an object");
+      }
+    } catch {
+      errors.push("scene: Not valid base64url-encoded JSON");
+    }
+  }
+
+  const cam = params.get("cam");
+  if (cam) {
+    const [phi, theta, distance] = cam.split(",").map(Number);
+    if ([phi, theta, distance].every(Number.isFinite)) {
+      const camera = isPlainObject(scene.camera) ? scene.camera : {};
+      scene = { ...scene, camera: { ...camera, phi, theta, distance } };
+    } else {
+      errors.push("cam: Expected phi,theta,distance");
+    }
+  }
+
+  const t = params.get("t");
+  if (t !== null) {
+    time = Number(t);
+    if (!Number.isFinite(time)) {
+      errors.push("t: Expected a number");
+      time = undefined;
+    }
+  }
+
+  if (!encodedScene && !cam) {
+    return { time, errors };
+  }
+
+  const result = validateSceneConfig(scene);
+  if (!result.success) {
+    return { time, errors: errors.concat(result.errors) };
+  }
+
+  return { config: result.config, time, errors };
+}
@@ -0,0 +1,151 @@
+import { canvasToPng } from "@/lib/image-export";
+import { muxWebm, type EncodedFrame } from "@/lib/webm";
+import { createZip, type ZipEntry } from "@/lib/zip";
+
+// Deterministic recording: frame i always shows simulation time i / fps, no
+// matter how long it takes to render. WebM goes through WebCodecs rather than
+// MediaRecorder, whose timestamps follow the wall clock.
+
+export type VideoFormat = "webm" | "png-sequence";
+
+export type VideoExportOptions = {
+  width: number;
+  height: number;
+  fps: number;
+  // Seconds of simulated time
+  duration: number;
+  supersample: number;
+  format: VideoFormat;
+  // Turntable rotation of the camera around the hole, in radians per second
+  orbitSpeed: number;
+  // Fly the authored camera path instead; its length sets the duration
+  followPath: boolean;
+};
+
+export type FrameRenderer = (frame: number) => Promise<HTMLCanvasElement>;
+
+type EncodeOptions = {
+  frameCount: number;
+  fps: number;
+  width: number;
+  height: number;
+  renderFrame: FrameRenderer;
+};
+
+// Preferred first; VP9 level 6.1 covers 8K, VP8 is the fallback
+const WEBM_CODECS = [
+  { codec: "vp09.00.61.08", track: "V_VP9" },
+  { codec: "vp09.00.51.08", track: "V_VP9" },
+  { codec: "vp8", track: "V_VP8" },
+] as const;
+
+// A keyframe every two seconds keeps seeking responsive
+const KEYFRAME_INTERVAL = 2;
+
+export async function encodePngSequence({
+  frameCount,
+  renderFrame,
+}: EncodeOptions) {
+  const digits = Math.max(5, String(frameCount - 1).length);
+  const entries: ZipEntry[] = [];
+
+  for (let frame = 0; frame < frameCount; frame++) {
+    const png = await canvasToPng(await renderFrame(frame));
+    entries.push({
+      name: `frame_${String(frame).padStart(digits, "0")}.png`,
+      data: new Uint8Array(await png.arrayBuffer()),
+    });
+  }
+
+  return createZip(entries);
+}
+
+export async function encodeWebm({
+  frameCount,
+  fps,
+  width,
+  height,
+  renderFrame,
+}: EncodeOptions) {
+  if (typeof VideoEncoder === "undefined") {
+    throw new Error(
+      "This browser can't encode video (WebCodecs is unavailable). Export a PNG sequence instead."
+    );
+  }
+
+  const config: VideoEncoderConfig = {
+    codec: "",
+    width,
+    height,
+    framerate: fps,
+    // Generous, since these clips are meant for further editing
+    bitrate: Math.round(width * height * fps * 0.25),
+  };
+
+  let selected: (typeof WEBM_CODECS)[number] | undefined;
+  for (const candidate of WEBM_CODECS) {
+    const { supported } = await VideoEncoder.isConfigSupported({
+      ...config,
+      codec: candidate.codec,
+    });
+    if (supported) {
+      selected = candidate;
+      break;
+    }
+  }
+
+  if (!selected) {
+    throw new Error(
+      `This browser can't encode ${width}×${height} VP8 or VP9 video. Try a smaller size or a PNG sequence.`
+    );
+  }
+
+  const frames: EncodedFrame[] = [];
+  let failure: Error | null = null;
+  const encoder = new VideoEncoder({
+    output: (chunk) => {
+      const data = new Uint8Array(chunk.byteLength);
+      chunk.copyTo(data);
+      frames.push({
+        data,
+        timestamp: chunk.timestamp,
+        key: chunk.type === "key",
+      });
+    },
+    error: (error) => {
+      failure = error;
+    },
+  });
+  encoder.configure({ ...config, codec: selected.codec });
+
+  try {
+    for (let frame = 0; frame < frameCount; frame++) {
+      const canvas = await renderFrame(frame);
+      const videoFrame = new VideoFrame(canvas, {
+        timestamp: Math.round((frame * 1e6) / fps),
+        duration: Math.round(1e6 / fps),
+      });
+      encoder.encode(videoFrame, {
+        keyFrame: frame % Math.round(fps * KEYFRAME_INTERVAL) === 0,
+      });
+      videoFrame.close();
+
+      if (failure) throw failure;
+    }
+
+    await encoder.flush();
+  } finally {
+    if (encoder.state !== "closed") encoder.close();
+  }
+
+  return muxWebm(frames, {
+    codec: selected.track,
+    width,
+    height,
+    duration: (frameCount * 1000) / fps,
+  });
+}
+
+export function encodeFrames(format: VideoFormat, options: EncodeOptions) {
+  return format === "webm" ? encodeWebm(options) : encodePngSequence(options);
+}
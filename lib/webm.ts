@@ -0,0 +1,154 @@
+// Minimal WebM muxer for a single VP8/VP9 track encoded with WebCodecs.
+// Everything is buffered, so element sizes are known up front and no seeking
+// or patching is needed. Timestamps use the default 1 ms TimestampScale.
+
+export type EncodedFrame = {
+  data: Uint8Array;
+  // Microseconds, as reported by WebCodecs
+  timestamp: number;
+  key: boolean;
+};
+
+export type WebmTrack = {
+  codec: "V_VP8" | "V_VP9";
+  width: number;
+  height: number;
+  // Total length in milliseconds
+  duration: number;
+};
+
+// Cluster-relative block timestamps are signed 16-bit milliseconds
+const MAX_CLUSTER_SPAN = 30000;
+
+type Element = Uint8Array;
+
+const concat = (parts: Uint8Array[]) => {
+  const out = new Uint8Array(parts.reduce((sum, part) => sum + part.length, 0));
+  let offset = 0;
+  for (const part of parts) {
+    out.set(part, offset);
+    offset += part.length;
+  }
+  return out;
+};
+
+// Big-endian bytes of an element ID, which already carries its length marker
+const idBytes = (id: number) => {
+  const bytes: number[] = [];
+  for (let value = id; value > 0; value = Math.floor(value / 256)) {
+    bytes.unshift(value & 0xff);
+  }
+  return bytes;
+};
+
+// EBML variable-length size: the leading 1 bit marks the byte count
+const sizeBytes = (size: number) => {
+  let length = 1;
+  while (size >= 2 ** (7 * length) - 1) length++;
+
+  const bytes = new Array<number>(length);
+  let value = size;
+  for (let i = length - 1; i >= 0; i--) {
+    bytes[i] = value & 0xff;
+    value = Math.floor(value / 256);
+  }
+  bytes[0] |= 0x80 >> (length - 1);
+  return bytes;
+};
+
+const element = (id: number, ...children: Uint8Array[]): Element => {
+  const body = concat(children);
+  return concat([
+    Uint8Array.from([...idBytes(id), ...sizeBytes(body.length)]),
+    body,
+  ]);
+};
+
+const uint = (id: number, value: number) => {
+  const bytes: number[] = [];
+  for (let rest = value; bytes.length === 0 || rest > 0; ) {
+    bytes.unshift(rest & 0xff);
+    rest = Math.floor(rest / 256);
+  }
+  return element(id, Uint8Array.from(bytes));
+};
+
+const float = (id: number, value: number) => {
+  const bytes = new Uint8Array(8);
+  new DataView(bytes.buffer).setFloat64(0, value);
+  return element(id, bytes);
+};
+
+const string = (id: number, value: string) =>
+  element(id, new TextEncoder().encode(value));
+
+function simpleBlock(frame: EncodedFrame, relativeTime: number) {
+  const header = new Uint8Array(4);
+  const view = new DataView(header.buffer);
+  view.setUint8(0, 0x81); // track number 1
+  view.setInt16(1, relativeTime);
+  view.setUint8(3, frame.key ? 0x80 : 0x00);
+  return element(0xa3, header, frame.data);
+}
+
+// Group frames into clusters that each open on a keyframe
+function clusters(frames: EncodedFrame[]) {
+  const result: Element[] = [];
+  let start = 0;
+  let blocks: Element[] = [];
+
+  const close = () => {
+    if (blocks.length > 0) {
+      result.push(element(0x1f43b675, uint(0xe7, start), ...blocks));
+    }
+    blocks = [];
+  };
+
+  for (const frame of frames) {
+    const time = Math.round(frame.timestamp / 1000);
+    if (blocks.length === 0 || frame.key || time - start > MAX_CLUSTER_SPAN) {
+      close();
+      start = time;
+    }
+    blocks.push(simpleBlock(frame, time - start));
+  }
+
+  close();
+  return result;
+}
+
+export function muxWebm(frames: EncodedFrame[], track: WebmTrack) {
+  const header = element(
+    0x1a45dfa3,
+    uint(0x4286, 1), // EBMLVersion
+    uint(0x42f7, 1), // EBMLReadVersion
+    uint(0x42f2, 4), // EBMLMaxIDLength
+    uint(0x42f3, 8), // EBMLMaxSizeLength
+    string(0x4282, "webm"), // DocType
+    uint(0x4287, 4), // DocTypeVersion
+    uint(0x4285, 2) // DocTypeReadVersion
+  );
+
+  const info = element(
+    0x1549a966,
+    uint(0x2ad7b1, 1000000), // TimestampScale: 1 ms
+    string(0x4d80, "gargantua"), // MuxingApp
+    string(0x5741, "gargantua"), // WritingApp
+    float(0x4489, track.duration)
+  );
+
+  const tracks = element(
+    0x1654ae6b,
+    element(
+      0xae, // TrackEntry
+      uint(0xd7, 1), // TrackNumber
+      uint(0x73c5, 1), // TrackUID
+      uint(0x83, 1), // TrackType: video
+      string(0x86, track.codec),
+      element(0xe0, uint(0xb0, track.width), uint(0xba, track.height))
+    )
+  );
+
+  const segment = element(0x18538067, info, tracks, ...clusters(frames));
+  return new Blob([header, segment], { type: "video/webm" });
+}
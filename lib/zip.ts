@@ -0,0 +1,100 @@
+// Minimal ZIP writer for frame sequences. Entries are stored uncompressed
+// (PNGs barely deflate), which keeps this a few dozen lines instead of a
+// dependency. Classic ZIP without ZIP64: up to 65535 entries and 4 GiB.
+
+export type ZipEntry = {
+  name: string;
+  data: Uint8Array;
+};
+
+const CRC_TABLE = (() => {
+  const table = new Uint32Array(256);
+  for (let n = 0; n < 256; n++) {
+    let c = n;
+    for (let k = 0; k < 8; k++) {
+      c = c & 1 ? 0xedb88320 ^ (c >>> 1) : c >>> 1;
+    }
+    table[n] = c >>> 0;
+  }
+  return table;
+})();
+
+export function crc32(data: Uint8Array) {
+  let crc = 0xffffffff;
+  for (let i = 0; i < data.length; i++) {
+    crc = CRC_TABLE[(crc ^ data[i]) & 0xff] ^ (crc >>> 8);
+  }
+  return (crc ^ 0xffffffff) >>> 0;
+}
+
+// MS-DOS date and time fields, as stored in the headers
+function dosDateTime(date: Date) {
+  const time =
+    (date.getHours() << 11) |
+    (date.getMinutes() << 5) |
+    Math.floor(date.getSeconds() / 2);
+  const day =
+    ((date.getFullYear() - 1980) << 9) |
+    ((date.getMonth() + 1) << 5) |
+    date.getDate();
+  return { time, day };
+}
+
+export function createZip(entries: ZipEntry[], modified = new Date()) {
+  if (entries.length > 0xffff) {
+    throw new Error("ZIP archives without ZIP64 hold at most 65535 entries");
+  }
+
+  const encoder = new TextEncoder();
+  const { time, day } = dosDateTime(modified);
+  const parts: Uint8Array[] = [];
+  const directory: Uint8Array[] = [];
+  let offset = 0;
+
+  for (const { name, data } of entries) {
+    const fileName = encoder.encode(name);
+    const crc = crc32(data);
+
+    // Fields shared by the local header and the central directory record
+    const common = (view: DataView, at: number) => {
+      view.setUint16(at, 20, true); // version needed to extract
+      view.setUint16(at + 2, 0x0800, true); // UTF-8 file names
+      view.setUint16(at + 4, 0, true); // stored
+      view.setUint16(at + 6, time, true);
+      view.setUint16(at + 8, day, true);
+      view.setUint32(at + 10, crc, true);
+      view.setUint32(at + 14, data.length, true);
+      view.setUint32(at + 18, data.length, true);
+      view.setUint16(at + 22, fileName.length, true);
+    };
+
+    const local = new Uint8Array(30 + fileName.length);
+    const localView = new DataView(local.buffer);
+    localView.setUint32(0, 0x04034b50, true);
+    common(localView, 4);
+    local.set(fileName, 30);
+
+    const record = new Uint8Array(46 + fileName.length);
+    const recordView = new DataView(record.buffer);
+    recordView.setUint32(0, 0x02014b50, true);
+    recordView.setUint16(4, 20, true); // version made by
+    common(recordView, 6);
+    recordView.setUint32(42, offset, true);
+    record.set(fileName, 46);
+
+    parts.push(local, data);
+    directory.push(record);
+    offset += local.length + data.length;
+  }
+
+  const directorySize = directory.reduce((sum, part) => sum + part.length, 0);
+  const end = new Uint8Array(22);
+  const endView = new DataView(end.buffer);
+  endView.setUint32(0, 0x06054b50, true);
+  endView.setUint16(8, entries.length, true);
+  endView.setUint16(10, entries.length, true);
+  endView.setUint32(12, directorySize, true);
+  endView.setUint32(16, offset, true);
+
+  return new Blob([...parts, ...directory, end], { type: "application/zip" });
+}
@@ -19,6 +19,9 @@ const nextConfig = {
       // Exclude Three.js from the server build
       config.externals.push("three");
     }
+    // Shader chunks and star catalogues are imported as strings and
+    // processed at runtime
+    config.module.rules.push({ test: /\.(glsl|dat)$/, type: "asset/source" });
     return config;
   },
 };
@@ -0,0 +1,25 @@
+// Bakes the bundled catalogue and the synthetic field into the star map the
+// renderer fetches (see lib/stars/star-map.ts). Runs before `dev` and
+// `build`, from the project root.
+
+import { readFileSync, writeFileSync } from "node:fs";
+import { parseBrightStarCatalog } from "@/lib/stars/catalog";
+import {
+  catalogMapStars,
+  createStarMap,
+  fieldMapStars,
+  STAR_MAP_CELL_VALUES,
+  starMapCells,
+} from "@/lib/stars/star-map";
+
+const CATALOG = "lib/stars/bright-stars.dat";
+const OUTPUT = "public/star-map.bin";
+
+const stars = [
+  ...catalogMapStars(parseBrightStarCatalog(readFileSync(CATALOG, "utf8"))),
+  ...fieldMapStars(),
+];
+const cells = starMapCells(createStarMap(stars));
+writeFileSync(OUTPUT, cells);
+
+console.log(`${OUTPUT}: ${cells.length / STAR_MAP_CELL_VALUES} stars`);
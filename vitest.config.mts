@@ -0,0 +1,20 @@
+import { fileURLToPath } from "node:url";
+import { defineConfig } from "vitest/config";
+
+export default defineConfig({
+  resolve: {
+    alias: { "@": fileURLToPath(new URL(".", import.meta.url)) },
+  },
+  plugins: [
+    // Shader chunks and star catalogues as strings, like the webpack rule
+    // in next.config.mjs
+    {
+      name: "source-strings",
+      transform(code, id) {
+        if (/\.(glsl|dat)$/.test(id)) {
+          return `export default ${JSON.stringify(code)};`;
+        }
+      },
+    },
+  ],
+});